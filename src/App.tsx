@@ -2,9 +2,10 @@ import { Toaster } from "@/components/ui/toaster";
 import { Toaster as Sonner } from "@/components/ui/sonner";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { BrowserRouter, Routes, Route, Navigate } from "react-router-dom";
 import Index from "./pages/Index";
 import NotFound from "./pages/NotFound";
+import { API_KEYS_PATH, NEW_CHAT_PATH, PROMPTS_PATH, USAGE_PATH } from "./lib/routes";
 
 const queryClient = new QueryClient();
 
@@ -15,7 +16,15 @@ const App = () => (
       <Sonner />
       <BrowserRouter>
         <Routes>
-          <Route path="/" element={<Index />} />
+          <Route path="/" element={<Navigate to={NEW_CHAT_PATH} replace />} />
+          {/* Index stays mounted across these so switching threads keeps app state */}
+          <Route element={<Index />}>
+            <Route path={NEW_CHAT_PATH} />
+            <Route path="/chat/:threadId" />
+            <Route path={PROMPTS_PATH} />
+            <Route path={USAGE_PATH} />
+            <Route path={API_KEYS_PATH} />
+          </Route>
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
@@ -1,29 +1,55 @@
 
 import { useState, useEffect } from "react";
+import { formatDistanceToNow } from "date-fns";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Badge } from "@/components/ui/badge";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Plus, Key, Eye, EyeOff, Trash2, Check, AlertCircle } from "lucide-react";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Plus, Key, Eye, EyeOff, Trash2, Check, AlertCircle, Gauge, Activity, Pencil, ChevronUp, ChevronDown, Star } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
-
-interface ApiKey {
-  id: string;
-  provider: string;
-  model_name: string;
-  key_name: string;
-  is_active: boolean;
-  created_at: string;
-}
-
-interface Provider {
-  id: string;
-  name: string;
-}
-
-const API_BASE_URL = "http://localhost:8000";
+import { cn } from "@/lib/utils";
+import {
+  createApiKey,
+  deleteApiKey,
+  getAuthToken,
+  getProvidersAndModels,
+  getUsage,
+  listApiKeys,
+  reorderApiKeys,
+  testApiKey,
+  updateApiKey,
+  type ApiKey,
+  type ApiKeyTestResult,
+  type Provider,
+} from "@/lib/api";
+import {
+  currentMonthRange,
+  getBudgetStatus,
+  getSpendByKey,
+  parseLimitsDraft,
+  toLimitsDraft,
+  type KeyLimitsDraft,
+} from "@/lib/key-budgets";
+import { applyTestResult, describeTestFailure, formatLatency, getKeyHealth } from "@/lib/key-health";
+import { getDefaultKey, getFailoverOrder, moveInFailoverOrder, withFailoverOrder } from "@/lib/key-selection";
+import { formatCost } from "@/lib/token-usage";
+import { KeyLimitsFields } from "./KeyLimitsFields";
+import { EditApiKeyDialog } from "./EditApiKeyDialog";
+import { FallbackChainEditor } from "./FallbackChainEditor";
 
 export function ApiKeyManager() {
   const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
@@ -36,28 +62,29 @@ export function ApiKeyManager() {
   const [selectedModel, setSelectedModel] = useState('');
   const [keyName, setKeyName] = useState('');
   const [apiKey, setApiKey] = useState('');
+  const [limits, setLimits] = useState<KeyLimitsDraft>(toLimitsDraft());
   const [submitting, setSubmitting] = useState(false);
+  // Estimated spend this month per key id
+  const [spendByKey, setSpendByKey] = useState<Record<string, number>>({});
+  const [editingLimits, setEditingLimits] = useState<{ keyId: string; draft: KeyLimitsDraft } | null>(null);
+  const [savingLimits, setSavingLimits] = useState(false);
+  const [testingKeyIds, setTestingKeyIds] = useState<Set<string>>(new Set());
+  const [editingKey, setEditingKey] = useState<ApiKey | null>(null);
+  const [keyToDelete, setKeyToDelete] = useState<ApiKey | null>(null);
   const { toast } = useToast();
 
-  // Get auth token from localStorage
-  const getAuthToken = () => localStorage.getItem('authToken');
-
   useEffect(() => {
     loadProvidersAndModels();
     loadApiKeys();
+    loadMonthSpend();
   }, []);
 
   const loadProvidersAndModels = async () => {
     setProvidersLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/providers-and-models`);
-      if (response.ok) {
-        const data = await response.json();
-        setProviders(data.providers);
-        setModelsByProvider(data.models_by_provider);
-      } else {
-        throw new Error('Failed to load providers and models');
-      }
+      const data = await getProvidersAndModels();
+      setProviders(data.providers);
+      setModelsByProvider(data.models_by_provider);
     } catch (error) {
       console.error('Error loading providers and models:', error);
       toast({
@@ -71,8 +98,7 @@ export function ApiKeyManager() {
   };
 
   const loadApiKeys = async () => {
-    const token = getAuthToken();
-    if (!token) {
+    if (!getAuthToken()) {
       toast({
         title: "Authentication Required",
         description: "Please log in to manage API keys",
@@ -83,18 +109,8 @@ export function ApiKeyManager() {
     }
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api-keys`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (response.ok) {
-        const keys = await response.json();
-        setApiKeys(keys);
-      } else {
-        throw new Error('Failed to load API keys');
-      }
+      const keys = await listApiKeys();
+      setApiKeys(keys);
     } catch (error) {
       console.error('Error loading API keys:', error);
       toast({
@@ -107,6 +123,18 @@ export function ApiKeyManager() {
     }
   };
 
+  // Only feeds the budget bars, so a failure is logged rather than shown
+  const loadMonthSpend = async () => {
+    if (!getAuthToken()) return;
+
+    try {
+      const { start, end } = currentMonthRange();
+      setSpendByKey(getSpendByKey(await getUsage(start, end)));
+    } catch (error) {
+      console.error('Error loading key spend:', error);
+    }
+  };
+
   const handleAddKey = async () => {
     if (!selectedProvider || !selectedModel || !keyName || !apiKey) {
       toast({
@@ -117,8 +145,7 @@ export function ApiKeyManager() {
       return;
     }
 
-    const token = getAuthToken();
-    if (!token) {
+    if (!getAuthToken()) {
       toast({
         title: "Authentication Required",
         description: "Please log in to add API keys",
@@ -130,37 +157,24 @@ export function ApiKeyManager() {
     setSubmitting(true);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api-keys`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          provider: selectedProvider,
-          model_name: selectedModel,
-          api_key: apiKey,
-          key_name: keyName,
-        }),
+      const newKey = await createApiKey({
+        provider: selectedProvider,
+        model_name: selectedModel,
+        api_key: apiKey,
+        key_name: keyName,
+        ...parseLimitsDraft(limits),
       });
 
-      if (response.ok) {
-        const newKey = await response.json();
-        setApiKeys(prev => [...prev, newKey]);
-        setShowForm(false);
-        setSelectedProvider('');
-        setSelectedModel('');
-        setKeyName('');
-        setApiKey('');
-        
-        toast({
-          title: "API key added",
-          description: "Your API key has been securely stored",
-        });
-      } else {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Failed to add API key');
-      }
+      setApiKeys(prev => [...prev, newKey]);
+      setShowForm(false);
+      setSelectedProvider('');
+      setSelectedModel('');
+      setKeyName('');
+      setApiKey('');
+      setLimits(toLimitsDraft());
+
+      // Check the key straight away so a typo shows up before the first chat
+      showTestResult(newKey, await runKeyTest(newKey), true);
     } catch (error) {
       console.error('Error adding API key:', error);
       toast({
@@ -174,36 +188,153 @@ export function ApiKeyManager() {
   };
 
   const deleteKey = async (keyId: string) => {
-    const token = getAuthToken();
-    if (!token) return;
+    if (!getAuthToken()) return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/api-keys/${keyId}`, {
-        method: 'DELETE',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
+      await deleteApiKey(keyId);
+      setApiKeys(prev => prev.filter(key => key.id !== keyId));
+      toast({
+        title: "API key deleted",
+        description: "The API key has been removed",
       });
-
-      if (response.ok) {
-        setApiKeys(prev => prev.filter(key => key.id !== keyId));
-        toast({
-          title: "API key deleted",
-          description: "The API key has been removed",
-        });
-      } else {
-        throw new Error('Failed to delete API key');
-      }
     } catch (error) {
       console.error('Error deleting API key:', error);
       toast({
         title: "Error",
-        description: "Failed to delete API key",
+        description: error instanceof Error ? error.message : "Failed to delete API key",
         variant: "destructive"
       });
     }
   };
 
+  const toggleActive = async (key: ApiKey, isActive: boolean) => {
+    if (!getAuthToken()) return;
+
+    // Flip the switch straight away and put it back if saving fails
+    setApiKeys(prev => prev.map(k => k.id === key.id ? { ...k, is_active: isActive } : k));
+    try {
+      const updated = await updateApiKey(key.id, { is_active: isActive });
+      setApiKeys(prev => prev.map(k => k.id === key.id ? updated : k));
+    } catch (error) {
+      console.error('Error updating API key:', error);
+      setApiKeys(prev => prev.map(k => k.id === key.id ? { ...k, is_active: key.is_active } : k));
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : `Failed to ${isActive ? 'enable' : 'disable'} API key`,
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleReorder = async (provider: string, keyIds: string[]) => {
+    if (!getAuthToken()) return;
+
+    const previous = apiKeys;
+    setApiKeys(prev => withFailoverOrder(prev, keyIds));
+    try {
+      const updated = await reorderApiKeys(provider, keyIds);
+      setApiKeys(prev => prev.map(key => updated.find(k => k.id === key.id) ?? key));
+    } catch (error) {
+      console.error('Error reordering API keys:', error);
+      setApiKeys(previous);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change the failover order",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const makeDefault = (key: ApiKey) => {
+    const others = getFailoverOrder(apiKeys, key.provider).map(k => k.id).filter(id => id !== key.id);
+    handleReorder(key.provider, [key.id, ...others]);
+  };
+
+  const handleKeyUpdated = (updated: ApiKey) => {
+    const previous = apiKeys.find(key => key.id === updated.id);
+    setApiKeys(prev => prev.map(key => key.id === updated.id ? updated : key));
+    // The last test was for the old model, so check the new one
+    if (previous && previous.model_name !== updated.model_name && updated.is_active) {
+      runKeyTest(updated);
+    }
+  };
+
+  // Null when the test itself could not be run; the failure is logged
+  const runKeyTest = async (key: ApiKey): Promise<ApiKeyTestResult | null> => {
+    setTestingKeyIds(prev => new Set(prev).add(key.id));
+    try {
+      const result = await testApiKey(key.id);
+      setApiKeys(prev => prev.map(k => k.id === key.id ? applyTestResult(k, result) : k));
+      return result;
+    } catch (error) {
+      console.error('Error testing API key:', error);
+      return null;
+    } finally {
+      setTestingKeyIds(prev => {
+        const next = new Set(prev);
+        next.delete(key.id);
+        return next;
+      });
+    }
+  };
+
+  const showTestResult = (key: ApiKey, result: ApiKeyTestResult | null, justAdded = false) => {
+    if (!result) {
+      toast({
+        title: justAdded ? "API key added" : "Test failed",
+        description: justAdded
+          ? "Your API key has been stored, but it could not be tested right now"
+          : "Could not run the test. Check your connection and try again.",
+        variant: justAdded ? "default" : "destructive"
+      });
+      return;
+    }
+
+    if (result.ok) {
+      const latency = result.latency_ms != null ? ` in ${formatLatency(result.latency_ms)}` : '';
+      toast({
+        title: justAdded ? "API key added" : "Key works",
+        description: `${getProviderDisplayName(key.provider)} answered${latency} using ${key.key_name}`,
+      });
+      return;
+    }
+
+    const { label, detail } = describeTestFailure(result);
+    toast({
+      title: justAdded ? `API key added, but the test failed: ${label}` : label,
+      description: detail,
+      variant: "destructive"
+    });
+  };
+
+  const handleTestKey = async (key: ApiKey) => {
+    showTestResult(key, await runKeyTest(key));
+  };
+
+  const handleSaveLimits = async () => {
+    if (!editingLimits || !getAuthToken()) return;
+
+    setSavingLimits(true);
+    try {
+      const updated = await updateApiKey(editingLimits.keyId, parseLimitsDraft(editingLimits.draft));
+      setApiKeys(prev => prev.map(key => key.id === updated.id ? updated : key));
+      setEditingLimits(null);
+      toast({
+        title: "Limits saved",
+        description: `${updated.key_name} will use the new budget and rate cap`,
+      });
+    } catch (error) {
+      console.error('Error saving key limits:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save limits",
+        variant: "destructive"
+      });
+    } finally {
+      setSavingLimits(false);
+    }
+  };
+
   const handleProviderChange = (providerId: string) => {
     setSelectedProvider(providerId);
     const availableModels = modelsByProvider[providerId] || [];
@@ -245,6 +376,10 @@ export function ApiKeyManager() {
     return colors[providerId] || 'bg-slate-500';
   };
 
+  // Keys are listed by provider, each provider's in failover order
+  const orderedKeys = [...new Set(apiKeys.map(key => key.provider))]
+    .flatMap(provider => getFailoverOrder(apiKeys, provider));
+
   if (loading || providersLoading) {
     return (
       <div className="h-full flex items-center justify-center">
@@ -344,6 +479,14 @@ export function ApiKeyManager() {
                     className="mt-1 bg-slate-700 border-slate-600 text-white focus:ring-2 focus:ring-blue-500"
                   />
                 </div>
+
+                <div className="pt-2">
+                  <h4 className="text-sm font-medium text-white">Usage limits</h4>
+                  <p className="text-xs text-slate-400 mb-3">
+                    Optional guardrails for keys shared by a team. Leave blank for no limit.
+                  </p>
+                  <KeyLimitsFields idPrefix="new-key" value={limits} onChange={setLimits} />
+                </div>
                 
                 <div className="flex gap-3 pt-4">
                   <Button 
@@ -395,48 +538,200 @@ export function ApiKeyManager() {
           <div>
             <h3 className="text-lg font-medium text-white mb-4">Your API Keys</h3>
             <div className="space-y-3">
-              {apiKeys.map(key => {
+              {orderedKeys.map(key => {
                 const providerDisplayName = getProviderDisplayName(key.provider);
+                const providerKeys = getFailoverOrder(apiKeys, key.provider);
+                const position = providerKeys.indexOf(key);
+                const isDefault = getDefaultKey(apiKeys, key.provider)?.id === key.id;
+                const budgetStatus = getBudgetStatus(key, spendByKey[key.id] ?? 0);
+                const isEditingLimits = editingLimits?.keyId === key.id;
+                const health = getKeyHealth(key);
+                const testing = testingKeyIds.has(key.id);
+                const failure = health === 'failing' && key.last_test ? describeTestFailure(key.last_test) : null;
                 
                 return (
                   <Card key={key.id} className="bg-slate-800/30 border-slate-700">
                     <CardContent className="p-4">
                       <div className="flex items-center justify-between">
                         <div className="flex items-center gap-3">
+                          {providerKeys.length > 1 && (
+                            <div className="flex flex-col -my-1">
+                              <button
+                                type="button"
+                                onClick={() => handleReorder(key.provider, moveInFailoverOrder(apiKeys, key.id, -1))}
+                                disabled={position === 0}
+                                className="text-slate-500 hover:text-white disabled:opacity-30 disabled:hover:text-slate-500"
+                                title="Try earlier"
+                              >
+                                <ChevronUp className="w-4 h-4" />
+                              </button>
+                              <button
+                                type="button"
+                                onClick={() => handleReorder(key.provider, moveInFailoverOrder(apiKeys, key.id, 1))}
+                                disabled={position === providerKeys.length - 1}
+                                className="text-slate-500 hover:text-white disabled:opacity-30 disabled:hover:text-slate-500"
+                                title="Try later"
+                              >
+                                <ChevronDown className="w-4 h-4" />
+                              </button>
+                            </div>
+                          )}
                           <div className={`w-3 h-3 rounded-full ${getProviderColor(key.provider)}`} />
                           <div>
-                            <h4 className="font-medium text-white">{key.key_name}</h4>
+                            <div className="flex items-center gap-2">
+                              <h4 className="font-medium text-white">{key.key_name}</h4>
+                              {isDefault && providerKeys.length > 1 && (
+                                <Badge variant="secondary" className="text-xs bg-blue-500/20 text-blue-300">
+                                  default
+                                </Badge>
+                              )}
+                              {!isDefault && providerKeys.length > 1 && key.is_active && (
+                                <span className="text-xs text-slate-500">failover #{position + 1}</span>
+                              )}
+                            </div>
                             <p className="text-sm text-slate-400">{providerDisplayName} • {key.model_name}</p>
                           </div>
                         </div>
                         
                         <div className="flex items-center gap-2">
+                          <Switch
+                            checked={key.is_active}
+                            onCheckedChange={(checked) => toggleActive(key, checked)}
+                            title={key.is_active ? 'Disable key' : 'Enable key'}
+                            className="data-[state=unchecked]:bg-slate-600"
+                          />
                           <Badge 
-                            variant={key.is_active ? 'default' : 'destructive'}
-                            className={
-                              key.is_active 
-                                ? "bg-green-600 text-white" 
-                                : "bg-red-600 text-white"
-                            }
+                            variant={health === 'failing' || health === 'inactive' ? 'destructive' : 'default'}
+                            className={cn(
+                              "text-white",
+                              health === 'verified' && "bg-green-600",
+                              (health === 'failing' || health === 'inactive') && "bg-red-600",
+                              health === 'untested' && "bg-slate-600"
+                            )}
+                            title={key.last_verified_at ? `Last verified ${new Date(key.last_verified_at).toLocaleString()}` : 'Never verified'}
                           >
-                            {key.is_active && <Check className="w-3 h-3 mr-1" />}
-                            {!key.is_active && <AlertCircle className="w-3 h-3 mr-1" />}
-                            {key.is_active ? 'active' : 'inactive'}
+                            {health === 'verified' && <Check className="w-3 h-3 mr-1" />}
+                            {(health === 'failing' || health === 'inactive') && <AlertCircle className="w-3 h-3 mr-1" />}
+                            {health === 'verified' ? 'verified'
+                              : health === 'failing' ? failure?.label.toLowerCase()
+                                : health === 'untested' ? 'not verified'
+                                  : 'inactive'}
                           </Badge>
+                          {providerKeys.length > 1 && !isDefault && key.is_active && (
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => makeDefault(key)}
+                              className="text-slate-400 hover:text-white"
+                              title="Make default"
+                            >
+                              <Star className="w-4 h-4" />
+                            </Button>
+                          )}
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleTestKey(key)}
+                            disabled={testing}
+                            className="text-slate-400 hover:text-white"
+                            title="Test key"
+                          >
+                            <Activity className={cn("w-4 h-4", testing && "animate-pulse text-blue-400")} />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditingLimits(isEditingLimits ? null : { keyId: key.id, draft: toLimitsDraft(key) })}
+                            className={cn("text-slate-400 hover:text-white", isEditingLimits && "text-white bg-slate-700/50")}
+                            title="Budget and rate limits"
+                          >
+                            <Gauge className="w-4 h-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditingKey(key)}
+                            className="text-slate-400 hover:text-white"
+                            title="Edit key"
+                          >
+                            <Pencil className="w-4 h-4" />
+                          </Button>
                           <Button
                             variant="ghost"
                             size="sm"
-                            onClick={() => deleteKey(key.id)}
+                            onClick={() => setKeyToDelete(key)}
                             className="text-slate-400 hover:text-red-400"
+                            title="Delete key"
                           >
                             <Trash2 className="w-4 h-4" />
                           </Button>
                         </div>
                       </div>
                       
+                      {budgetStatus && (
+                        <div className="mt-3 space-y-1">
+                          <div className="flex justify-between text-xs">
+                            <span className="text-slate-400">
+                              {formatCost(budgetStatus.spend)} of {formatCost(budgetStatus.budget)} this month
+                            </span>
+                            <span className={cn(
+                              "tabular-nums",
+                              budgetStatus.exhausted ? "text-red-400" : budgetStatus.threshold !== null ? "text-amber-400" : "text-slate-400"
+                            )}>
+                              {Math.round(budgetStatus.percent)}%
+                            </span>
+                          </div>
+                          <Progress
+                            value={Math.min(budgetStatus.percent, 100)}
+                            className={cn(
+                              "h-1.5 bg-slate-700",
+                              budgetStatus.exhausted ? "[&>div]:bg-red-500" : budgetStatus.threshold !== null ? "[&>div]:bg-amber-500" : "[&>div]:bg-blue-500"
+                            )}
+                          />
+                        </div>
+                      )}
+
                       <p className="text-xs text-slate-500 mt-2">
                         Created: {new Date(key.created_at).toLocaleDateString()}
+                        {key.last_verified_at && ` • Last verified ${formatDistanceToNow(new Date(key.last_verified_at), { addSuffix: true })}`}
+                        {key.last_test?.ok && key.last_test.latency_ms != null && ` (${formatLatency(key.last_test.latency_ms)})`}
+                        {budgetStatus && ` • ${key.on_budget_exhausted === 'block' ? 'Blocks sending' : 'Asks before sending'} once spent`}
+                        {key.rate_limit_per_minute ? ` • Up to ${key.rate_limit_per_minute} requests/min` : null}
                       </p>
+
+                      {failure && (
+                        <p className="text-xs text-red-400 mt-1">
+                          Last test {formatDistanceToNow(new Date(key.last_test!.checked_at), { addSuffix: true })}: {failure.detail}
+                        </p>
+                      )}
+
+                      {isEditingLimits && (
+                        <div className="mt-4 pt-4 border-t border-slate-700 space-y-4">
+                          <KeyLimitsFields
+                            idPrefix={`key-${key.id}`}
+                            value={editingLimits.draft}
+                            onChange={(draft) => setEditingLimits({ keyId: key.id, draft })}
+                          />
+                          <div className="flex gap-3">
+                            <Button
+                              size="sm"
+                              onClick={handleSaveLimits}
+                              disabled={savingLimits}
+                              className="bg-blue-600 hover:bg-blue-700"
+                            >
+                              {savingLimits ? 'Saving...' : 'Save limits'}
+                            </Button>
+                            <Button
+                              size="sm"
+                              variant="outline"
+                              onClick={() => setEditingLimits(null)}
+                              className="border-slate-600 text-slate-300 hover:bg-slate-700"
+                            >
+                              Cancel
+                            </Button>
+                          </div>
+                        </div>
+                      )}
                     </CardContent>
                   </Card>
                 );
@@ -460,8 +755,40 @@ export function ApiKeyManager() {
               )}
             </div>
           </div>
+
+          <FallbackChainEditor providers={providers} modelsByProvider={modelsByProvider} apiKeys={apiKeys} />
         </div>
       </ScrollArea>
+
+      <EditApiKeyDialog
+        apiKey={editingKey}
+        providerName={editingKey ? getProviderDisplayName(editingKey.provider) : ''}
+        models={editingKey ? modelsByProvider[editingKey.provider] || [] : []}
+        onClose={() => setEditingKey(null)}
+        onUpdated={handleKeyUpdated}
+      />
+
+      <AlertDialog open={!!keyToDelete} onOpenChange={(open) => !open && setKeyToDelete(null)}>
+        <AlertDialogContent className="bg-slate-800 border-slate-700 text-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {keyToDelete?.key_name}?</AlertDialogTitle>
+            <AlertDialogDescription className="text-slate-400">
+              The key is removed for good and chats can no longer use it. To stop using it for a while, turn it off instead.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => keyToDelete && deleteKey(keyToDelete.id)}
+              className="bg-red-600 hover:bg-red-700 text-white"
+            >
+              Delete key
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
     </div>
   );
 }
@@ -0,0 +1,196 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { RefreshCw } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { rotateApiKey, updateApiKey, type ApiKey } from "@/lib/api";
+import { applyTestResult, describeTestFailure, formatLatency } from "@/lib/key-health";
+
+interface EditApiKeyDialogProps {
+  /** Key being edited; the dialog is open while this is set. */
+  apiKey: ApiKey | null;
+  providerName: string;
+  /** Models the key's provider offers. */
+  models: string[];
+  onClose: () => void;
+  /** Called with the stored key after a save or a successful rotation. */
+  onUpdated: (key: ApiKey) => void;
+}
+
+export function EditApiKeyDialog({ apiKey, providerName, models, onClose, onUpdated }: EditApiKeyDialogProps) {
+  const [keyName, setKeyName] = useState('');
+  const [modelName, setModelName] = useState('');
+  const [newSecret, setNewSecret] = useState('');
+  const [rotationError, setRotationError] = useState<string | null>(null);
+  const [saving, setSaving] = useState(false);
+  const [rotating, setRotating] = useState(false);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!apiKey) return;
+    setKeyName(apiKey.key_name);
+    setModelName(apiKey.model_name);
+    setNewSecret('');
+    setRotationError(null);
+  }, [apiKey]);
+
+  if (!apiKey) return null;
+
+  // Keep the current model selectable even if the provider no longer lists it
+  const modelOptions = models.includes(apiKey.model_name) ? models : [apiKey.model_name, ...models];
+  const changed = keyName.trim() !== apiKey.key_name || modelName !== apiKey.model_name;
+
+  const handleSave = async () => {
+    if (!keyName.trim()) {
+      toast({
+        title: "Missing fields",
+        description: "The key needs a name",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const updated = await updateApiKey(apiKey.id, { key_name: keyName.trim(), model_name: modelName });
+      onUpdated(updated);
+      toast({
+        title: "API key updated",
+        description: `${updated.key_name} has been saved`,
+      });
+      onClose();
+    } catch (error) {
+      console.error('Error updating API key:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update API key",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleRotate = async () => {
+    if (!newSecret.trim()) return;
+
+    setRotating(true);
+    setRotationError(null);
+    try {
+      const { key, test } = await rotateApiKey(apiKey.id, newSecret.trim());
+      if (!test.ok) {
+        // The server kept the old secret, so nothing changes for chats in progress
+        const { label, detail } = describeTestFailure(test);
+        setRotationError(`${label}: ${detail} The current key is still in use.`);
+        return;
+      }
+      onUpdated(applyTestResult(key, test));
+      setNewSecret('');
+      toast({
+        title: "Key rotated",
+        description: `The new secret was verified${test.latency_ms != null ? ` in ${formatLatency(test.latency_ms)}` : ''} and replaces the old one`,
+      });
+    } catch (error) {
+      console.error('Error rotating API key:', error);
+      setRotationError(error instanceof Error ? error.message : 'Failed to rotate the key');
+    } finally {
+      setRotating(false);
+    }
+  };
+
+  const busy = saving || rotating;
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && !busy && onClose()}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white max-w-md">
+        <DialogHeader>
+          <DialogTitle>Edit API key</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            {providerName} key. Changes keep the same key id, so chats and usage history stay linked to it.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div>
+            <Label htmlFor="edit-key-name" className="text-slate-300">Key Name</Label>
+            <Input
+              id="edit-key-name"
+              value={keyName}
+              onChange={(e) => setKeyName(e.target.value)}
+              className="mt-1 bg-slate-700 border-slate-600 text-white focus:ring-2 focus:ring-blue-500"
+            />
+          </div>
+
+          <div>
+            <Label htmlFor="edit-key-model" className="text-slate-300">Model</Label>
+            <select
+              id="edit-key-model"
+              value={modelName}
+              onChange={(e) => setModelName(e.target.value)}
+              className="w-full mt-1 bg-slate-700 border-slate-600 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500"
+            >
+              {modelOptions.map(model => (
+                <option key={model} value={model}>
+                  {model}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div className="pt-4 border-t border-slate-700">
+            <Label htmlFor="edit-key-secret" className="text-slate-300">Rotate secret</Label>
+            <p className="text-xs text-slate-400 mb-2">
+              The new secret is tested with {providerName} first; the current one stays in use if the test fails.
+            </p>
+            <div className="flex gap-2">
+              <Input
+                id="edit-key-secret"
+                type="password"
+                value={newSecret}
+                onChange={(e) => setNewSecret(e.target.value)}
+                placeholder="Paste the new API key..."
+                className="bg-slate-700 border-slate-600 text-white focus:ring-2 focus:ring-blue-500"
+              />
+              <Button
+                onClick={handleRotate}
+                disabled={!newSecret.trim() || busy}
+                className="bg-blue-600 hover:bg-blue-700 flex-shrink-0"
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${rotating ? 'animate-spin' : ''}`} />
+                {rotating ? 'Testing...' : 'Rotate'}
+              </Button>
+            </div>
+            {rotationError && <p className="text-xs text-red-400 mt-2">{rotationError}</p>}
+          </div>
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={onClose}
+            disabled={busy}
+            className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            Close
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!changed || busy}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {saving ? 'Saving...' : 'Save changes'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,142 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { ChevronUp, ChevronDown, Plus, X } from "lucide-react";
+import type { ApiKey, Provider } from "@/lib/api";
+import { loadFallbackChain, saveFallbackChain, type FallbackTarget } from "@/lib/fallback-chain";
+
+interface FallbackChainEditorProps {
+  providers: Provider[];
+  modelsByProvider: Record<string, string[]>;
+  /** Used to flag steps whose provider has no active key. */
+  apiKeys: ApiKey[];
+}
+
+export function FallbackChainEditor({ providers, modelsByProvider, apiKeys }: FallbackChainEditorProps) {
+  const [chain, setChain] = useState<FallbackTarget[]>(loadFallbackChain);
+  const [newProvider, setNewProvider] = useState('');
+  const [newModel, setNewModel] = useState('');
+
+  const updateChain = (next: FallbackTarget[]) => {
+    setChain(next);
+    saveFallbackChain(next);
+  };
+
+  const move = (index: number, direction: -1 | 1) => {
+    const next = [...chain];
+    [next[index], next[index + direction]] = [next[index + direction], next[index]];
+    updateChain(next);
+  };
+
+  const handleProviderChange = (providerId: string) => {
+    setNewProvider(providerId);
+    setNewModel(modelsByProvider[providerId]?.[0] ?? '');
+  };
+
+  const handleAdd = () => {
+    if (!newProvider || !newModel) return;
+    updateChain([...chain, { provider: newProvider, model: newModel }]);
+  };
+
+  const providerName = (providerId: string) => providers.find(p => p.id === providerId)?.name ?? providerId;
+  const hasActiveKey = (providerId: string) => apiKeys.some(key => key.provider === providerId && key.is_active);
+  const alreadyInChain = chain.some(target => target.provider === newProvider && target.model === newModel);
+
+  return (
+    <Card className="bg-slate-800/50 border-slate-700">
+      <CardHeader>
+        <CardTitle className="text-white">Fallback chain</CardTitle>
+        <CardDescription className="text-slate-400">
+          When a model is rate limited, times out or has a server error before it starts answering, the chat
+          moves on to the next model in this list. Conversations can opt out in their settings.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {chain.length === 0 && (
+          <p className="text-sm text-slate-500">No fallbacks yet. Failed messages show an error.</p>
+        )}
+
+        {chain.map((target, index) => (
+          <div
+            key={`${target.provider}/${target.model}`}
+            className="flex items-center gap-3 rounded-lg border border-slate-700 bg-slate-800/30 px-3 py-2"
+          >
+            <span className="w-5 text-sm text-slate-500 tabular-nums">{index + 1}.</span>
+            <div className="flex-1 min-w-0">
+              <p className="text-sm text-white truncate">{target.model}</p>
+              <p className="text-xs text-slate-400">
+                {providerName(target.provider)}
+                {!hasActiveKey(target.provider) && <span className="text-amber-400"> • no active key for this provider</span>}
+              </p>
+            </div>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => move(index, -1)}
+              disabled={index === 0}
+              className="h-7 px-2 text-slate-400 hover:text-white hover:bg-slate-700/50"
+              title="Move up"
+            >
+              <ChevronUp className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => move(index, 1)}
+              disabled={index === chain.length - 1}
+              className="h-7 px-2 text-slate-400 hover:text-white hover:bg-slate-700/50"
+              title="Move down"
+            >
+              <ChevronDown className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={() => updateChain(chain.filter((_, i) => i !== index))}
+              className="h-7 px-2 text-slate-400 hover:text-red-400 hover:bg-slate-700/50"
+              title="Remove"
+            >
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+        ))}
+
+        <div className="flex items-center gap-2 pt-2">
+          <select
+            value={newProvider}
+            onChange={(e) => handleProviderChange(e.target.value)}
+            className="w-1/3 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            <option value="">Provider...</option>
+            {providers.map(provider => (
+              <option key={provider.id} value={provider.id}>
+                {provider.name}
+              </option>
+            ))}
+          </select>
+          <select
+            value={newModel}
+            onChange={(e) => setNewModel(e.target.value)}
+            disabled={(modelsByProvider[newProvider] || []).length === 0}
+            className="flex-1 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+          >
+            {(modelsByProvider[newProvider] || []).map(model => (
+              <option key={model} value={model}>
+                {model}
+              </option>
+            ))}
+          </select>
+          <Button
+            size="sm"
+            onClick={handleAdd}
+            disabled={!newProvider || !newModel || alreadyInChain}
+            className="bg-blue-600 hover:bg-blue-700"
+          >
+            <Plus className="w-4 h-4 mr-1" />
+            Add
+          </Button>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
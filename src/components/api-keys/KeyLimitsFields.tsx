@@ -0,0 +1,76 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import type { BudgetExhaustedAction } from "@/lib/api";
+import { BUDGET_ACTION_LABELS, type KeyLimitsDraft } from "@/lib/key-budgets";
+
+interface KeyLimitsFieldsProps {
+  /** Prefix for the input ids, so several forms can be on the page at once. */
+  idPrefix: string;
+  value: KeyLimitsDraft;
+  onChange: (value: KeyLimitsDraft) => void;
+}
+
+export function KeyLimitsFields({ idPrefix, value, onChange }: KeyLimitsFieldsProps) {
+  const update = (patch: Partial<KeyLimitsDraft>) => onChange({ ...value, ...patch });
+
+  return (
+    <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+      <div>
+        <Label htmlFor={`${idPrefix}-budget`} className="text-slate-300">Monthly budget (USD)</Label>
+        <Input
+          id={`${idPrefix}-budget`}
+          type="number"
+          min="0"
+          step="0.01"
+          value={value.budget}
+          onChange={(e) => update({ budget: e.target.value })}
+          placeholder="No limit"
+          className="mt-1 bg-slate-700 border-slate-600 text-white focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-rate`} className="text-slate-300">Requests per minute</Label>
+        <Input
+          id={`${idPrefix}-rate`}
+          type="number"
+          min="1"
+          step="1"
+          value={value.rateLimit}
+          onChange={(e) => update({ rateLimit: e.target.value })}
+          placeholder="No cap"
+          className="mt-1 bg-slate-700 border-slate-600 text-white focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-thresholds`} className="text-slate-300">Warn at (% of budget)</Label>
+        <Input
+          id={`${idPrefix}-thresholds`}
+          value={value.thresholds}
+          onChange={(e) => update({ thresholds: e.target.value })}
+          placeholder="50, 80, 100"
+          disabled={!value.budget.trim()}
+          className="mt-1 bg-slate-700 border-slate-600 text-white focus:ring-2 focus:ring-blue-500"
+        />
+      </div>
+
+      <div>
+        <Label htmlFor={`${idPrefix}-exhausted`} className="text-slate-300">When the budget runs out</Label>
+        <select
+          id={`${idPrefix}-exhausted`}
+          value={value.onExhausted}
+          onChange={(e) => update({ onExhausted: e.target.value as BudgetExhaustedAction })}
+          disabled={!value.budget.trim()}
+          className="w-full mt-1 bg-slate-700 border-slate-600 text-white rounded-lg px-3 py-2 focus:ring-2 focus:ring-blue-500 disabled:opacity-50"
+        >
+          {(Object.keys(BUDGET_ACTION_LABELS) as BudgetExhaustedAction[]).map(action => (
+            <option key={action} value={action}>
+              {BUDGET_ACTION_LABELS[action]}
+            </option>
+          ))}
+        </select>
+      </div>
+    </div>
+  );
+}
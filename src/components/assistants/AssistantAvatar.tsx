@@ -0,0 +1,21 @@
+import { Bot } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Assistant } from "@/lib/api";
+
+interface AssistantAvatarProps {
+  assistant: Pick<Assistant, 'avatar'>;
+  className?: string;
+}
+
+export function AssistantAvatar({ assistant, className }: AssistantAvatarProps) {
+  return (
+    <div
+      className={cn(
+        "w-6 h-6 rounded-md bg-slate-700 flex items-center justify-center flex-shrink-0 text-sm",
+        className
+      )}
+    >
+      {assistant.avatar || <Bot className="w-3/5 h-3/5 text-slate-300" />}
+    </div>
+  );
+}
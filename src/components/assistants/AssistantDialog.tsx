@@ -0,0 +1,210 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import {
+  createAssistant,
+  updateAssistant,
+  type Assistant,
+  type Provider,
+} from "@/lib/api";
+import {
+  fromSettingsDraft,
+  toSettingsDraft,
+  validateSettings,
+  type SettingsDraft,
+} from "@/lib/generation-settings";
+import { GenerationSettingsFields } from "@/components/chat/GenerationSettingsFields";
+
+interface AssistantDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Assistant being edited; a new one is created when this is null. */
+  assistant: Assistant | null;
+  providers: Provider[];
+  modelsByProvider: Record<string, string[]>;
+  defaultProvider: string;
+  defaultModel: string;
+  onSaved: (assistant: Assistant) => void;
+}
+
+const selectClass = "w-full mt-1 bg-slate-700 border border-slate-600 text-white rounded-lg px-3 py-2 text-sm focus:ring-2 focus:ring-blue-500";
+
+export function AssistantDialog({
+  open,
+  onOpenChange,
+  assistant,
+  providers,
+  modelsByProvider,
+  defaultProvider,
+  defaultModel,
+  onSaved
+}: AssistantDialogProps) {
+  const [name, setName] = useState('');
+  const [avatar, setAvatar] = useState('');
+  const [provider, setProvider] = useState(defaultProvider);
+  const [model, setModel] = useState(defaultModel);
+  const [draft, setDraft] = useState<SettingsDraft>(() => toSettingsDraft({}));
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  // Start from the assistant being edited, or the current model for a new one
+  useEffect(() => {
+    if (!open) return;
+    setName(assistant?.name ?? '');
+    setAvatar(assistant?.avatar ?? '');
+    setProvider(assistant?.provider ?? defaultProvider);
+    setModel(assistant?.model_name ?? defaultModel);
+    setDraft(toSettingsDraft(assistant?.settings ?? {}));
+  }, [open, assistant, defaultProvider, defaultModel]);
+
+  const settings = fromSettingsDraft(draft);
+  const errors = validateSettings(settings, provider);
+  const canSave = name.trim() && provider && model && Object.keys(errors).length === 0;
+
+  const handleProviderChange = (providerId: string) => {
+    setProvider(providerId);
+    setModel(modelsByProvider[providerId]?.[0] || '');
+  };
+
+  const handleSave = async () => {
+    if (!canSave) return;
+
+    const payload = {
+      name: name.trim(),
+      avatar: avatar.trim() || null,
+      provider,
+      model_name: model,
+      settings,
+    };
+
+    setSaving(true);
+    try {
+      const saved = assistant
+        ? await updateAssistant(assistant.id, payload)
+        : await createAssistant(payload);
+      onSaved(saved);
+      onOpenChange(false);
+      toast({
+        title: assistant ? "Assistant updated" : "Assistant created",
+        description: saved.name,
+      });
+    } catch (error) {
+      console.error('Error saving assistant:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save assistant",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{assistant ? 'Edit assistant' : 'New assistant'}</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Chats started from this assistant use its model, system prompt and parameters
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4 py-2">
+          <div className="flex gap-3">
+            <div className="w-20">
+              <Label htmlFor="assistant-avatar" className="text-slate-300">Avatar</Label>
+              <Input
+                id="assistant-avatar"
+                value={avatar}
+                onChange={(e) => setAvatar(e.target.value)}
+                placeholder="🤖"
+                maxLength={4}
+                className="mt-1 text-center bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+            <div className="flex-1">
+              <Label htmlFor="assistant-name" className="text-slate-300">Name</Label>
+              <Input
+                id="assistant-name"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Code Reviewer"
+                className="mt-1 bg-slate-700 border-slate-600 text-white"
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <Label htmlFor="assistant-provider" className="text-slate-300">Provider</Label>
+              <select
+                id="assistant-provider"
+                value={provider}
+                onChange={(e) => handleProviderChange(e.target.value)}
+                className={selectClass}
+              >
+                {providers.map(item => (
+                  <option key={item.id} value={item.id}>
+                    {item.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <Label htmlFor="assistant-model" className="text-slate-300">Model</Label>
+              <select
+                id="assistant-model"
+                value={model}
+                onChange={(e) => setModel(e.target.value)}
+                className={selectClass}
+                disabled={(modelsByProvider[provider] || []).length === 0}
+              >
+                {(modelsByProvider[provider] || []).map(item => (
+                  <option key={item} value={item}>
+                    {item}
+                  </option>
+                ))}
+              </select>
+            </div>
+          </div>
+
+          <GenerationSettingsFields
+            draft={draft}
+            onChange={setDraft}
+            provider={provider}
+            errors={errors}
+            idPrefix="assistant-settings"
+          />
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={!canSave || saving}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
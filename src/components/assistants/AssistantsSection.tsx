@@ -0,0 +1,145 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { MoreHorizontal, Pencil, Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { deleteAssistant, type Assistant, type Provider } from "@/lib/api";
+import { AssistantAvatar } from "./AssistantAvatar";
+import { AssistantDialog } from "./AssistantDialog";
+
+interface AssistantsSectionProps {
+  assistants: Assistant[];
+  providers: Provider[];
+  modelsByProvider: Record<string, string[]>;
+  selectedProvider: string;
+  selectedModel: string;
+  onStartChat: (assistant: Assistant) => void;
+  onSaved: (assistant: Assistant) => void;
+  onDeleted: (assistantId: string) => void;
+}
+
+export function AssistantsSection({
+  assistants,
+  providers,
+  modelsByProvider,
+  selectedProvider,
+  selectedModel,
+  onStartChat,
+  onSaved,
+  onDeleted
+}: AssistantsSectionProps) {
+  const [dialogOpen, setDialogOpen] = useState(false);
+  const [editingAssistant, setEditingAssistant] = useState<Assistant | null>(null);
+  const { toast } = useToast();
+
+  const openDialog = (assistant: Assistant | null) => {
+    setEditingAssistant(assistant);
+    setDialogOpen(true);
+  };
+
+  const handleDelete = async (assistant: Assistant) => {
+    try {
+      await deleteAssistant(assistant.id);
+      onDeleted(assistant.id);
+      toast({
+        title: "Assistant deleted",
+        description: assistant.name,
+      });
+    } catch (error) {
+      console.error('Error deleting assistant:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete assistant",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="p-4 border-b border-slate-700/50">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-slate-300">Assistants</h3>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => openDialog(null)}
+          title="New assistant"
+          className="h-6 w-6 p-0 text-slate-400 hover:text-white hover:bg-slate-700/50"
+        >
+          <Plus className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {assistants.length === 0 ? (
+        <p className="text-xs text-slate-500">
+          Save a persona with its own model, system prompt and parameters
+        </p>
+      ) : (
+        <div className="space-y-1 max-h-40 overflow-y-auto">
+          {assistants.map(assistant => (
+            <div
+              key={assistant.id}
+              onClick={() => onStartChat(assistant)}
+              title={`New chat with ${assistant.name}`}
+              className="flex items-center gap-2 px-2 py-1.5 rounded-lg cursor-pointer hover:bg-slate-700/30 group"
+            >
+              <AssistantAvatar assistant={assistant} />
+              <div className="min-w-0 flex-1">
+                <p className="text-sm text-white truncate">{assistant.name}</p>
+                <p className="text-xs text-slate-500 truncate">{assistant.model_name}</p>
+              </div>
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => e.stopPropagation()}
+                    className="h-6 w-6 p-0 text-slate-400 hover:text-white hover:bg-slate-600/50 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                  >
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent
+                  align="end"
+                  className="bg-slate-800 border-slate-700 text-slate-200"
+                  onClick={(e) => e.stopPropagation()}
+                >
+                  <DropdownMenuItem
+                    onSelect={() => openDialog(assistant)}
+                    className="focus:bg-slate-700 focus:text-white cursor-pointer"
+                  >
+                    <Pencil className="w-4 h-4 mr-2" />
+                    Edit
+                  </DropdownMenuItem>
+                  <DropdownMenuItem
+                    onSelect={() => handleDelete(assistant)}
+                    className="cursor-pointer text-red-400 focus:bg-red-500/20 focus:text-red-300"
+                  >
+                    <Trash2 className="w-4 h-4 mr-2" />
+                    Delete
+                  </DropdownMenuItem>
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <AssistantDialog
+        open={dialogOpen}
+        onOpenChange={setDialogOpen}
+        assistant={editingAssistant}
+        providers={providers}
+        modelsByProvider={modelsByProvider}
+        defaultProvider={selectedProvider}
+        defaultModel={selectedModel}
+        onSaved={onSaved}
+      />
+    </div>
+  );
+}
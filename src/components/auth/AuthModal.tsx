@@ -6,14 +6,15 @@ import { Label } from "@/components/ui/label";
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { useToast } from "@/hooks/use-toast";
+import { getCurrentUser, login, register, setAuthToken, type User } from "@/lib/api";
 
 interface AuthModalProps {
-  onAuthSuccess: (token: string, user: any) => void;
+  onAuthSuccess: (token: string, user: User) => void;
+  /** Switches to local mode, which needs no account. */
+  onUseLocalMode: () => void;
 }
 
-const API_BASE_URL = "http://localhost:8000";
-
-export function AuthModal({ onAuthSuccess }: AuthModalProps) {
+export function AuthModal({ onAuthSuccess, onUseLocalMode }: AuthModalProps) {
   const [isLoading, setIsLoading] = useState(false);
   const [loginData, setLoginData] = useState({ email: '', password: '' });
   const [registerData, setRegisterData] = useState({ email: '', password: '', confirmPassword: '' });
@@ -24,30 +25,13 @@ export function AuthModal({ onAuthSuccess }: AuthModalProps) {
     setIsLoading(true);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/login`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(loginData),
-      });
+      const data = await login(loginData);
+      setAuthToken(data.access_token);
 
-      if (response.ok) {
-        const data = await response.json();
-        localStorage.setItem('authToken', data.access_token);
-        
-        // Get user info
-        const userResponse = await fetch(`${API_BASE_URL}/auth/me`, {
-          headers: { 'Authorization': `Bearer ${data.access_token}` },
-        });
-        
-        if (userResponse.ok) {
-          const user = await userResponse.json();
-          onAuthSuccess(data.access_token, user);
-          toast({ title: "Login successful", description: "Welcome back!" });
-        }
-      } else {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Login failed');
-      }
+      // Get user info
+      const user = await getCurrentUser();
+      onAuthSuccess(data.access_token, user);
+      toast({ title: "Login successful", description: "Welcome back!" });
     } catch (error) {
       toast({
         title: "Login failed",
@@ -74,24 +58,15 @@ export function AuthModal({ onAuthSuccess }: AuthModalProps) {
     setIsLoading(true);
 
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/register`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          email: registerData.email,
-          password: registerData.password,
-        }),
+      await register({
+        email: registerData.email,
+        password: registerData.password,
       });
 
-      if (response.ok) {
-        toast({ title: "Registration successful", description: "Please log in with your credentials" });
-        // Auto-switch to login tab
-        setLoginData({ email: registerData.email, password: '' });
-        setRegisterData({ email: '', password: '', confirmPassword: '' });
-      } else {
-        const errorData = await response.json();
-        throw new Error(errorData.detail || 'Registration failed');
-      }
+      toast({ title: "Registration successful", description: "Please log in with your credentials" });
+      // Auto-switch to login tab
+      setLoginData({ email: registerData.email, password: '' });
+      setRegisterData({ email: '', password: '', confirmPassword: '' });
     } catch (error) {
       toast({
         title: "Registration failed",
@@ -204,6 +179,20 @@ export function AuthModal({ onAuthSuccess }: AuthModalProps) {
               </form>
             </TabsContent>
           </Tabs>
+
+          <div className="mt-6 pt-4 border-t border-slate-700 text-center">
+            <Button
+              variant="ghost"
+              onClick={onUseLocalMode}
+              disabled={isLoading}
+              className="text-slate-300 hover:text-white hover:bg-slate-700"
+            >
+              Use without an account
+            </Button>
+            <p className="text-xs text-slate-500 mt-1">
+              Keys and chats stay in this browser and providers are called directly.
+            </p>
+          </div>
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,238 @@
+import { useCallback, useEffect, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Lock } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { createVault, hasVault, resetVault, unlockVault } from "@/lib/local/vault";
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface LocalVaultScreenProps {
+  onUnlocked: () => void;
+  /** Leaves local mode for the server sign-in. */
+  onUseAccount: () => void;
+}
+
+export function LocalVaultScreen({ onUnlocked, onUseAccount }: LocalVaultScreenProps) {
+  // Null until IndexedDB has been checked for an existing vault
+  const [vaultExists, setVaultExists] = useState<boolean | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [confirmPassphrase, setConfirmPassphrase] = useState('');
+  const [isLoading, setIsLoading] = useState(false);
+  const [confirmReset, setConfirmReset] = useState(false);
+  const { toast } = useToast();
+
+  const loadVaultState = useCallback(async () => {
+    try {
+      setVaultExists(await hasVault());
+    } catch (error) {
+      console.error('Error opening local storage:', error);
+      toast({
+        title: "Error",
+        description: "This browser does not allow local storage, so local mode cannot be used",
+        variant: "destructive"
+      });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadVaultState();
+  }, [loadVaultState]);
+
+  const handleCreate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (passphrase !== confirmPassphrase) {
+      toast({
+        title: "Passphrases don't match",
+        description: "Please make sure both passphrases are the same",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    setIsLoading(true);
+    try {
+      await createVault(passphrase);
+      onUnlocked();
+    } catch (error) {
+      console.error('Error creating vault:', error);
+      toast({
+        title: "Error",
+        description: "Failed to set up local mode",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleUnlock = async (e: React.FormEvent) => {
+    e.preventDefault();
+    setIsLoading(true);
+
+    try {
+      if (await unlockVault(passphrase)) {
+        onUnlocked();
+      } else {
+        toast({
+          title: "Wrong passphrase",
+          description: "The passphrase does not match the one local mode was set up with",
+          variant: "destructive"
+        });
+      }
+    } catch (error) {
+      console.error('Error unlocking vault:', error);
+      toast({
+        title: "Error",
+        description: "Failed to unlock local mode",
+        variant: "destructive"
+      });
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleReset = async () => {
+    try {
+      await resetVault();
+      setPassphrase('');
+      setVaultExists(false);
+      toast({ title: "Local data erased", description: "Choose a new passphrase to start over" });
+    } catch (error) {
+      console.error('Error erasing local data:', error);
+      toast({
+        title: "Error",
+        description: "Failed to erase local data",
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 p-4">
+      <Card className="w-full max-w-md bg-slate-800/50 border-slate-700">
+        <CardHeader className="text-center">
+          <Lock className="w-8 h-8 text-blue-400 mx-auto mb-2" />
+          <CardTitle className="text-2xl font-bold text-white">
+            {vaultExists === false ? 'Set up local mode' : 'Unlock local mode'}
+          </CardTitle>
+          <CardDescription className="text-slate-400">
+            {vaultExists === false
+              ? 'Your API keys are encrypted in this browser with a passphrase. It cannot be recovered, so keep it somewhere safe.'
+              : 'Enter your passphrase to decrypt the API keys stored in this browser.'}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {vaultExists === false ? (
+            <form onSubmit={handleCreate} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="new-passphrase" className="text-slate-300">Passphrase</Label>
+                <Input
+                  id="new-passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder={`At least ${MIN_PASSPHRASE_LENGTH} characters`}
+                  className="bg-slate-700 border-slate-600 text-white"
+                  required
+                  minLength={MIN_PASSPHRASE_LENGTH}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="confirm-passphrase" className="text-slate-300">Confirm Passphrase</Label>
+                <Input
+                  id="confirm-passphrase"
+                  type="password"
+                  value={confirmPassphrase}
+                  onChange={(e) => setConfirmPassphrase(e.target.value)}
+                  placeholder="Repeat your passphrase"
+                  className="bg-slate-700 border-slate-600 text-white"
+                  required
+                />
+              </div>
+              <Button type="submit" className="w-full bg-blue-600 hover:bg-blue-700" disabled={isLoading}>
+                {isLoading ? 'Setting up...' : 'Set up local mode'}
+              </Button>
+            </form>
+          ) : (
+            <form onSubmit={handleUnlock} className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="passphrase" className="text-slate-300">Passphrase</Label>
+                <Input
+                  id="passphrase"
+                  type="password"
+                  value={passphrase}
+                  onChange={(e) => setPassphrase(e.target.value)}
+                  placeholder="Enter your passphrase"
+                  className="bg-slate-700 border-slate-600 text-white"
+                  autoFocus
+                  required
+                />
+              </div>
+              <Button
+                type="submit"
+                className="w-full bg-blue-600 hover:bg-blue-700"
+                disabled={isLoading || vaultExists === null}
+              >
+                {isLoading ? 'Unlocking...' : 'Unlock'}
+              </Button>
+              {vaultExists && (
+                <button
+                  type="button"
+                  onClick={() => setConfirmReset(true)}
+                  className="w-full text-xs text-slate-500 hover:text-red-400"
+                >
+                  Forgot your passphrase? Erase local data
+                </button>
+              )}
+            </form>
+          )}
+
+          <div className="mt-6 pt-4 border-t border-slate-700 text-center">
+            <Button
+              variant="ghost"
+              onClick={onUseAccount}
+              disabled={isLoading}
+              className="text-slate-300 hover:text-white hover:bg-slate-700"
+            >
+              Sign in to a server account instead
+            </Button>
+          </div>
+        </CardContent>
+      </Card>
+
+      <AlertDialog open={confirmReset} onOpenChange={setConfirmReset}>
+        <AlertDialogContent className="bg-slate-800 border-slate-700 text-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Erase local data?</AlertDialogTitle>
+            <AlertDialogDescription className="text-slate-400">
+              Without the passphrase the stored keys cannot be decrypted. Erasing removes them along with every
+              conversation, assistant and prompt kept in this browser.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={handleReset} className="bg-red-600 hover:bg-red-700 text-white">
+              Erase everything
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
@@ -0,0 +1,66 @@
+import { AlertCircle, FileText, Loader2, X } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatFileSize } from "@/lib/attachments";
+import type { DisplayAttachment } from "./types";
+
+interface AttachmentChipsProps {
+  attachments: DisplayAttachment[];
+  /** Shows a remove button on each chip when set. */
+  onRemove?: (index: number) => void;
+  className?: string;
+}
+
+export function AttachmentChips({ attachments, onRemove, className }: AttachmentChipsProps) {
+  if (attachments.length === 0) return null;
+
+  return (
+    <div className={cn("flex flex-wrap gap-2", className)}>
+      {attachments.map((attachment, index) => {
+        const isError = attachment.status === 'error';
+        return (
+          <div
+            key={`${attachment.name}-${index}`}
+            title={attachment.error || attachment.name}
+            className={cn(
+              "relative flex items-center gap-2 rounded-lg border bg-slate-800/80 text-xs max-w-[14rem]",
+              attachment.previewUrl ? "p-1 pr-2" : "px-2 py-1.5",
+              isError ? "border-red-500/60" : "border-slate-600"
+            )}
+          >
+            {attachment.previewUrl ? (
+              <img
+                src={attachment.previewUrl}
+                alt={attachment.name}
+                className="w-10 h-10 rounded object-cover flex-shrink-0"
+              />
+            ) : attachment.status === 'processing' ? (
+              <Loader2 className="w-4 h-4 text-slate-400 animate-spin flex-shrink-0" />
+            ) : isError ? (
+              <AlertCircle className="w-4 h-4 text-red-400 flex-shrink-0" />
+            ) : (
+              <FileText className="w-4 h-4 text-slate-400 flex-shrink-0" />
+            )}
+            <div className="min-w-0">
+              <p className="text-slate-200 truncate">{attachment.name}</p>
+              <p className={cn("truncate", isError ? "text-red-400" : "text-slate-500")}>
+                {isError ? attachment.error : attachment.status === 'processing'
+                  ? 'Reading...'
+                  : `${attachment.kind.toUpperCase()} · ${formatFileSize(attachment.size)}`}
+              </p>
+            </div>
+            {onRemove && (
+              <button
+                type="button"
+                onClick={() => onRemove(index)}
+                title="Remove attachment"
+                className="ml-1 text-slate-400 hover:text-white flex-shrink-0"
+              >
+                <X className="w-3 h-3" />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -0,0 +1,35 @@
+import { forwardRef, useImperativeHandle, useLayoutEffect, useRef } from "react";
+import { Textarea, type TextareaProps } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+
+interface AutoResizeTextareaProps extends TextareaProps {
+  /** Height in pixels after which the textarea scrolls instead of growing. */
+  maxHeight?: number;
+}
+
+/** Grows with its content from a single line up to `maxHeight`. */
+export const AutoResizeTextarea = forwardRef<HTMLTextAreaElement, AutoResizeTextareaProps>(
+  ({ maxHeight = 240, className, value, ...props }, ref) => {
+    const innerRef = useRef<HTMLTextAreaElement>(null);
+    useImperativeHandle(ref, () => innerRef.current as HTMLTextAreaElement);
+
+    useLayoutEffect(() => {
+      const textarea = innerRef.current;
+      if (!textarea) return;
+      textarea.style.height = 'auto';
+      textarea.style.height = `${Math.min(textarea.scrollHeight, maxHeight)}px`;
+      textarea.style.overflowY = textarea.scrollHeight > maxHeight ? 'auto' : 'hidden';
+    }, [value, maxHeight]);
+
+    return (
+      <Textarea
+        ref={innerRef}
+        rows={1}
+        value={value}
+        className={cn("min-h-10 resize-none py-2", className)}
+        {...props}
+      />
+    );
+  }
+);
+AutoResizeTextarea.displayName = "AutoResizeTextarea";
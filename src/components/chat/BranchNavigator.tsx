@@ -0,0 +1,43 @@
+import { Button } from "@/components/ui/button";
+import { ChevronLeft, ChevronRight } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+interface BranchNavigatorProps {
+  index: number;
+  count: number;
+  onNavigate: (direction: -1 | 1) => void;
+  disabled?: boolean;
+  className?: string;
+}
+
+export function BranchNavigator({ index, count, onNavigate, disabled, className }: BranchNavigatorProps) {
+  if (count < 2) return null;
+
+  return (
+    <div className={cn("flex items-center gap-0.5 text-xs text-slate-400", className)}>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onNavigate(-1)}
+        disabled={disabled || index <= 0}
+        className="h-6 w-6 p-0 text-slate-400 hover:text-white hover:bg-slate-700/50"
+        aria-label="Previous version"
+      >
+        <ChevronLeft className="w-3 h-3" />
+      </Button>
+      <span className="tabular-nums">
+        {index + 1}/{count}
+      </span>
+      <Button
+        variant="ghost"
+        size="sm"
+        onClick={() => onNavigate(1)}
+        disabled={disabled || index >= count - 1}
+        className="h-6 w-6 p-0 text-slate-400 hover:text-white hover:bg-slate-700/50"
+        aria-label="Next version"
+      >
+        <ChevronRight className="w-3 h-3" />
+      </Button>
+    </div>
+  );
+}
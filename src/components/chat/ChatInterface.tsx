@@ -1,102 +1,468 @@
 
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useRef, useMemo, useCallback } from "react";
 import { Button } from "@/components/ui/button";
-import { Input } from "@/components/ui/input";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Send, Bot } from "lucide-react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { Send, Bot, Square, Paperclip, Upload, Download } from "lucide-react";
 import { ChatMessage } from "./ChatMessage";
+import { ComparisonSetupPopover } from "./ComparisonSetupPopover";
+import { ComparisonView } from "./ComparisonView";
+import { ThreadSettingsSheet } from "./ThreadSettingsSheet";
+import { AssistantAvatar } from "@/components/assistants/AssistantAvatar";
+import { PromptPicker } from "./PromptPicker";
+import { PromptVariablesDialog } from "./PromptVariablesDialog";
+import { AttachmentChips } from "./AttachmentChips";
+import { AutoResizeTextarea } from "./AutoResizeTextarea";
+import { ExportMenu } from "./ExportMenu";
+import { UsageLabel } from "./UsageLabel";
+import { KeyPicker } from "./KeyPicker";
 import { useToast } from "@/hooks/use-toast";
-
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-  isStreaming?: boolean;
-  model?: string;
-  provider?: string;
-}
+import { cn } from "@/lib/utils";
+import {
+  ApiError,
+  appendThreadMessages,
+  createThread,
+  getAssistant,
+  getAuthToken,
+  getChatAdapter,
+  getProvidersAndModels,
+  getThread,
+  getThreadMessages,
+  getUsage,
+  listApiKeys,
+  listPromptTemplates,
+  updateThread,
+  type ApiKey,
+  type Assistant,
+  type FallbackOrigin,
+  type GenerationSettings,
+  type ModelCapabilities,
+  type PromptTemplate,
+  type ThreadMessage,
+} from "@/lib/api";
+import { settingsForProvider } from "@/lib/generation-settings";
+import { extractVariables } from "@/lib/prompt-templates";
+import { adoptNewChatDraft, loadDraft, saveDraft } from "@/lib/drafts";
+import { exportConversations, type ExportFormat } from "@/lib/conversation-export";
+import {
+  checkKeyLimits,
+  currentMonthRange,
+  getBudgetStatus,
+  getSpendByKey,
+  recordKeyRequest,
+} from "@/lib/key-budgets";
+import { findKeyForChat, getFailoverOrder } from "@/lib/key-selection";
+import {
+  getFallbackTargets,
+  loadFallbackChain,
+  streamWithFallbacks,
+  type FallbackTarget,
+} from "@/lib/fallback-chain";
+import {
+  CONTEXT_WARNING_RATIO,
+  estimateConversationTokens,
+  formatCost,
+  formatTokenCount,
+  getModelPricing,
+  getPathUsage,
+  sumUsage,
+} from "@/lib/token-usage";
+import {
+  AttachmentError,
+  MAX_ATTACHMENTS,
+  readAttachment,
+  toContentParts,
+  toMessageAttachment,
+  validateAttachment,
+  type AttachmentKind,
+  type ComposerAttachment,
+} from "@/lib/attachments";
+import {
+  getActivePath,
+  getSiblings,
+  linkLinearMessages,
+  parentKey,
+  replaceMessageId,
+  replaceSelectionId,
+  selectBranch,
+  type BranchSelection,
+} from "@/lib/conversation-tree";
+import type { Message, ModelTarget } from "./types";
 
 interface ChatInterfaceProps {
   selectedModel: string;
   selectedProvider: string;
   currentThreadId?: string;
+  /** Assistant a new chat is started from; ignored once the thread exists. */
+  assistantId?: string;
   onThreadCreated?: (threadId: string) => void;
+  /** Called when loading the requested thread comes back 404. */
+  onThreadNotFound?: (threadId: string) => void;
   onModelChange?: (model: string) => void;
   onProviderChange?: (provider: string) => void;
+  /** Message to reveal and scroll to once it is loaded, e.g. from search. */
+  focusMessageId?: string;
+  onFocusHandled?: () => void;
+}
+
+interface SendOptions {
+  /** Message the new prompt follows. Defaults to the end of the visible branch. */
+  parentId?: string | null;
+  provider?: string;
+  model?: string;
+  /** Generate a new answer for this existing user message instead of adding a prompt. */
+  regenerateFor?: Message;
+  attachments?: ComposerAttachment[];
+  /** Prompt being edited; its attachments are sent again with the new text. */
+  editedFrom?: Message;
+  /** The user already agreed to send on a key whose budget is spent. */
+  budgetConfirmed?: boolean;
 }
 
-const API_BASE_URL = "http://localhost:8000";
+interface BudgetConfirmation {
+  key: ApiKey;
+  content: string;
+  options: SendOptions;
+}
+
+interface Comparison {
+  id: number;
+  prompt: string;
+  targets: ModelTarget[];
+  /** Why a target cannot run, by index, e.g. its key's budget is spent. */
+  unavailable: Record<number, string>;
+  parentMessageId: string | null;
+  settings: GenerationSettings;
+}
+
+const toMessage = (msg: ThreadMessage): Message => ({
+  id: msg.id,
+  parentId: msg.parent_id ?? null,
+  role: msg.role,
+  content: msg.content,
+  timestamp: new Date(msg.created_at),
+  model: msg.model_name,
+  provider: msg.provider,
+  attachments: msg.attachments,
+  contentParts: msg.content_parts ?? undefined,
+  usage: msg.usage ?? undefined,
+  apiKeyId: msg.api_key_id ?? undefined,
+  failedOver: msg.failed_over,
+  fallbackFrom: msg.fallback_from ?? undefined,
+});
 
 export function ChatInterface({
   selectedModel,
   selectedProvider,
   currentThreadId,
+  assistantId,
   onThreadCreated,
+  onThreadNotFound,
   onModelChange,
-  onProviderChange
+  onProviderChange,
+  focusMessageId,
+  onFocusHandled
 }: ChatInterfaceProps) {
   const [messages, setMessages] = useState<Message[]>([]);
+  const [branchSelection, setBranchSelection] = useState<BranchSelection>({});
   const [inputValue, setInputValue] = useState("");
   const [isLoading, setIsLoading] = useState(false);
   const [retryingMessageId, setRetryingMessageId] = useState<string | null>(null);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<Comparison | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [threadSettings, setThreadSettings] = useState<GenerationSettings>({});
+  const [assistant, setAssistant] = useState<Assistant | null>(null);
+  const [attachments, setAttachments] = useState<ComposerAttachment[]>([]);
+  const [isDraggingFiles, setIsDraggingFiles] = useState(false);
+  const [modelCapabilities, setModelCapabilities] = useState<Record<string, Record<string, ModelCapabilities>>>({});
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const composerRef = useRef<HTMLTextAreaElement>(null);
+  const [promptTemplates, setPromptTemplates] = useState<PromptTemplate[]>([]);
+  const [promptPickerDismissed, setPromptPickerDismissed] = useState(false);
+  const [templateToFill, setTemplateToFill] = useState<PromptTemplate | null>(null);
+  const [apiKeys, setApiKeys] = useState<ApiKey[]>([]);
+  // Estimated spend this month per key id
+  const [spendByKey, setSpendByKey] = useState<Record<string, number>>({});
+  const [budgetConfirmation, setBudgetConfirmation] = useState<BudgetConfirmation | null>(null);
+  // Key pinned to this conversation; null uses the provider's default
+  const [threadKeyId, setThreadKeyId] = useState<string | null>(null);
+  const [fallbacksDisabled, setFallbacksDisabled] = useState(false);
+  // Highest budget threshold already announced per key, so each alert shows once
+  const notifiedThresholdsRef = useRef<Record<string, number>>({});
   const scrollAreaRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const isMountedRef = useRef(false);
+  const scrollTargetRef = useRef<string | null>(null);
   const { toast } = useToast();
 
-  const getAuthToken = () => localStorage.getItem('authToken');
+  // Abort any in-flight generation when the chat is unmounted
+  useEffect(() => {
+    isMountedRef.current = true;
+    return () => {
+      isMountedRef.current = false;
+      abortControllerRef.current?.abort();
+    };
+  }, []);
 
-  // Load messages when thread changes
   useEffect(() => {
-    if (currentThreadId) {
-      loadThreadMessages();
-    } else {
+    loadPromptTemplates();
+    loadModelCapabilities();
+    loadKeyBudgets();
+  }, []);
+
+  // Reset the view when the thread changes; its messages are loaded further down
+  useEffect(() => {
+    setComparison(null);
+    setEditingMessageId(null);
+    setInputValue(loadDraft(currentThreadId));
+    if (!currentThreadId) {
       setMessages([]);
+      setBranchSelection({});
+      setThreadSettings({});
+      setThreadKeyId(null);
+      setFallbacksDisabled(false);
     }
   }, [currentThreadId]);
 
+
+  const visibleMessages = useMemo(
+    () => getActivePath(messages, branchSelection),
+    [messages, branchSelection]
+  );
+
+  const pathUsage = useMemo(
+    () => getPathUsage(visibleMessages, threadSettings.system_prompt),
+    [visibleMessages, threadSettings.system_prompt]
+  );
+  const threadUsage = useMemo(() => sumUsage(pathUsage), [pathUsage]);
+
+  const activeKey = useMemo(
+    () => findKeyForChat(apiKeys, selectedProvider, threadKeyId),
+    [apiKeys, selectedProvider, threadKeyId]
+  );
+  const keyNames = useMemo(
+    () => Object.fromEntries(apiKeys.map(key => [key.id, key.key_name])),
+    [apiKeys]
+  );
+  const activeBudget = useMemo(
+    () => activeKey ? getBudgetStatus(activeKey, spendByKey[activeKey.id] ?? 0) : null,
+    [activeKey, spendByKey]
+  );
+
+  // Announce each budget threshold the key in use crosses, once per session
+  useEffect(() => {
+    if (!activeKey || !activeBudget?.threshold) return;
+    if (activeBudget.threshold <= (notifiedThresholdsRef.current[activeKey.id] ?? 0)) return;
+    notifiedThresholdsRef.current[activeKey.id] = activeBudget.threshold;
+    toast({
+      title: activeBudget.exhausted ? "Monthly budget spent" : "Budget alert",
+      description: `${activeKey.key_name} has used ${Math.round(activeBudget.percent)}% of its ${formatCost(activeBudget.budget)} monthly budget`,
+      variant: activeBudget.exhausted ? "destructive" : "default",
+    });
+  }, [activeKey, activeBudget, toast]);
+
   // Auto-scroll to bottom when messages change
   useEffect(() => {
+    if (scrollTargetRef.current) return;
     if (scrollAreaRef.current) {
       const scrollContainer = scrollAreaRef.current.querySelector('[data-radix-scroll-area-viewport]');
       if (scrollContainer) {
         scrollContainer.scrollTop = scrollContainer.scrollHeight;
       }
     }
-  }, [messages]);
+  }, [visibleMessages]);
+
+  // Reveal a message requested from outside (search) once it has loaded
+  useEffect(() => {
+    if (!focusMessageId || !messages.some(msg => msg.id === focusMessageId)) return;
+    scrollTargetRef.current = focusMessageId;
+    setBranchSelection(prev => selectBranch(messages, prev, focusMessageId));
+    setHighlightedMessageId(focusMessageId);
+    onFocusHandled?.();
+  }, [focusMessageId, messages, onFocusHandled]);
+
+  useEffect(() => {
+    const targetId = scrollTargetRef.current;
+    if (!targetId) return;
+    const element = scrollAreaRef.current?.querySelector(`[data-message-id="${CSS.escape(targetId)}"]`);
+    if (element) {
+      element.scrollIntoView({ block: 'center' });
+      scrollTargetRef.current = null;
+    }
+  }, [highlightedMessageId, visibleMessages]);
+
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId]);
 
-  const loadThreadMessages = async () => {
+  const loadThreadMessages = useCallback(async () => {
     if (!currentThreadId) return;
 
-    const token = getAuthToken();
-    if (!token) return;
+    if (!getAuthToken()) return;
+
+    try {
+      const messagesData = await getThreadMessages(currentThreadId);
+      const formattedMessages = messagesData.map(toMessage);
+      setMessages(linkLinearMessages(formattedMessages));
+      setBranchSelection({});
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 404) {
+        onThreadNotFound?.(currentThreadId);
+        return;
+      }
+      console.error('Failed to load thread messages:', error);
+    }
+  }, [currentThreadId, onThreadNotFound]);
+
+  const loadPromptTemplates = async () => {
+    if (!getAuthToken()) return;
 
     try {
-      const response = await fetch(`${API_BASE_URL}/threads/${currentThreadId}/messages`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
+      setPromptTemplates(await listPromptTemplates());
+    } catch (error) {
+      console.error('Failed to load prompt templates:', error);
+    }
+  };
+
+  const loadModelCapabilities = async () => {
+    try {
+      const data = await getProvidersAndModels();
+      setModelCapabilities(data.model_capabilities ?? {});
+    } catch (error) {
+      console.error('Failed to load model capabilities:', error);
+    }
+  };
+
+  // Budgets are guardrails; if they cannot be loaded the chat still works
+  const loadKeyBudgets = async () => {
+    if (!getAuthToken()) return;
+
+    try {
+      const { start, end } = currentMonthRange();
+      const [keys, usage] = await Promise.all([listApiKeys(), getUsage(start, end)]);
+      setApiKeys(keys);
+      setSpendByKey(getSpendByKey(usage));
+    } catch (error) {
+      console.error('Failed to load key budgets:', error);
+    }
+  };
+
+  const loadAssistant = useCallback(async (id: string) => {
+    if (!getAuthToken()) return;
+
+    try {
+      const loaded = await getAssistant(id);
+      setAssistant(loaded);
+      setThreadSettings(loaded.settings ?? {});
+      onProviderChange?.(loaded.provider);
+      onModelChange?.(loaded.model_name);
+    } catch (error) {
+      console.error('Failed to load assistant:', error);
+      setAssistant(null);
+      toast({
+        title: "Error",
+        description: error instanceof ApiError && error.status === 404
+          ? "That assistant no longer exists"
+          : "Failed to load assistant",
+        variant: "destructive"
       });
+    }
+  }, [onProviderChange, onModelChange, toast]);
 
-      if (response.ok) {
-        const messagesData = await response.json();
-        const formattedMessages = messagesData.map((msg: any) => ({
-          id: msg.id,
-          role: msg.role,
-          content: msg.content,
-          timestamp: new Date(msg.created_at),
-        }));
-        setMessages(formattedMessages);
-      }
+  // A new chat from an assistant starts with its model and settings
+  useEffect(() => {
+    if (currentThreadId) return;
+    if (assistantId) {
+      loadAssistant(assistantId);
+    } else {
+      setAssistant(null);
+      setThreadSettings({});
+    }
+  }, [assistantId, currentThreadId, loadAssistant]);
+
+  const loadThreadSettings = useCallback(async () => {
+    if (!currentThreadId || !getAuthToken()) return;
+
+    try {
+      const thread = await getThread(currentThreadId);
+      setThreadSettings(thread.settings ?? {});
+      setThreadKeyId(thread.api_key_id ?? null);
+      setFallbacksDisabled(!!thread.fallbacks_disabled);
     } catch (error) {
-      console.error('Failed to load thread messages:', error);
+      // A missing thread is reported by loadThreadMessages
+      if (error instanceof ApiError && error.status === 404) return;
+      console.error('Failed to load thread settings:', error);
+    }
+  }, [currentThreadId]);
+
+  // Load messages when thread changes
+  useEffect(() => {
+    loadThreadMessages();
+    loadThreadSettings();
+  }, [loadThreadMessages, loadThreadSettings]);
+
+  // Unsaved threads keep settings locally until the first message creates them
+  const handleSaveSettings = async (settings: GenerationSettings, disableFallbacks: boolean) => {
+    if (!currentThreadId) {
+      setThreadSettings(settings);
+      setFallbacksDisabled(disableFallbacks);
+      return true;
+    }
+
+    try {
+      const updated = await updateThread(currentThreadId, { settings, fallbacks_disabled: disableFallbacks });
+      setThreadSettings(updated.settings ?? settings);
+      setFallbacksDisabled(!!updated.fallbacks_disabled);
+      return true;
+    } catch (error) {
+      console.error('Failed to save thread settings:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save conversation settings",
+        variant: "destructive"
+      });
+      return false;
     }
   };
 
-  const sendMessage = async (messageContent: string, retryProvider?: string, retryModel?: string) => {
-    if (!messageContent.trim()) return;
+  const handleKeyPinChange = async (keyId: string | null) => {
+    // Unsaved threads send the pin with the first message
+    if (!currentThreadId) {
+      setThreadKeyId(keyId);
+      return;
+    }
 
-    const token = getAuthToken();
-    if (!token) {
+    const previous = threadKeyId;
+    setThreadKeyId(keyId);
+    try {
+      await updateThread(currentThreadId, { api_key_id: keyId });
+    } catch (error) {
+      console.error('Failed to change the conversation key:', error);
+      setThreadKeyId(previous);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to change the key for this conversation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const sendMessage = async (messageContent: string, options: SendOptions = {}) => {
+    if (!messageContent.trim() && !options.attachments?.length) return;
+
+    if (!getAuthToken()) {
       toast({
         title: "Authentication required",
         description: "Please log in to send messages",
@@ -105,27 +471,64 @@ export function ChatInterface({
       return;
     }
 
+    const { regenerateFor, editedFrom, provider: retryProvider, model: retryModel } = options;
+
+    // Prompts from before attachment content was stored only know the file names
+    const resent = regenerateFor ?? editedFrom;
+    if (resent?.attachments?.length && !resent.contentParts?.length) {
+      toast({
+        title: "Attachments unavailable",
+        description: "The files attached to this message are no longer available. Send it again with the files attached.",
+        variant: "destructive"
+      });
+      cancelSend(messageContent, options);
+      return;
+    }
     const effectiveProvider = retryProvider || selectedProvider;
     const effectiveModel = retryModel || selectedModel;
 
+    const key = findKeyForChat(apiKeys, effectiveProvider, threadKeyId);
+    if (key) {
+      const check = checkKeyLimits(key, spendByKey[key.id] ?? 0, options.budgetConfirmed);
+      if (check.status === 'confirm') {
+        setBudgetConfirmation({ key, content: messageContent, options });
+        return;
+      }
+      if (check.status === 'blocked') {
+        toast({ title: check.title, description: check.description, variant: "destructive" });
+        cancelSend(messageContent, options);
+        return;
+      }
+      recordKeyRequest(key.id);
+    }
+
     setIsLoading(true);
-    
-    // Add user message if not retrying
-    if (!retryProvider && !retryModel) {
-      const userMessage: Message = {
-        id: Date.now().toString(),
-        role: 'user',
-        content: messageContent,
-        timestamp: new Date(),
-      };
+
+    // Add user message unless we are regenerating an answer for an existing one
+    const userMessage: Message = regenerateFor ?? {
+      id: Date.now().toString(),
+      parentId: options.parentId !== undefined
+        ? options.parentId
+        : visibleMessages[visibleMessages.length - 1]?.id ?? null,
+      role: 'user',
+      content: messageContent,
+      timestamp: new Date(),
+      attachments: options.attachments?.map(attachment => ({
+        ...toMessageAttachment(attachment),
+        previewUrl: attachment.dataUrl,
+      })) ?? editedFrom?.attachments,
+      contentParts: options.attachments ? toContentParts(options.attachments) : editedFrom?.contentParts,
+    };
+    if (!regenerateFor) {
       setMessages(prev => [...prev, userMessage]);
-      setInputValue("");
     }
+    let userMessageId = userMessage.id;
 
     // Add streaming assistant message
-    const assistantMessageId = Date.now().toString() + "_assistant";
+    let assistantMessageId = Date.now().toString() + "_assistant";
     const assistantMessage: Message = {
       id: assistantMessageId,
+      parentId: userMessageId,
       role: 'assistant',
       content: '',
       timestamp: new Date(),
@@ -136,80 +539,109 @@ export function ChatInterface({
     
     setMessages(prev => [...prev, assistantMessage]);
 
-    try {
-      const response = await fetch(`${API_BASE_URL}/chat`, {
-        method: 'POST',
-        headers: {
-          'Authorization': `Bearer ${token}`,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify({
-          message: messageContent,
-          thread_id: currentThreadId,
-          provider: effectiveProvider,
-          model_name: effectiveModel,
-          stream: true,
-        }),
-      });
+    // Capture the id at call time: it changes once the server assigns the real one
+    const updateAssistantMessage = (patch: Partial<Message>) => {
+      const id = assistantMessageId;
+      setMessages(prev => prev.map(msg => msg.id === id ? { ...msg, ...patch } : msg));
+    };
 
-      if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
-      }
+    const previousSelection = branchSelection[userMessageId];
+    setBranchSelection(prev => ({
+      ...prev,
+      [parentKey(userMessage.parentId)]: userMessageId,
+      [userMessageId]: assistantMessageId,
+    }));
 
-      const reader = response.body?.getReader();
-      if (!reader) {
-        throw new Error('Failed to get response reader');
-      }
+    const abortController = new AbortController();
+    abortControllerRef.current = abortController;
 
-      let fullContent = '';
-      let threadId = currentThreadId;
+    // The chosen model first, then the fallback chain unless the thread opted out
+    const primary = { provider: effectiveProvider, model: effectiveModel };
+    const targets = [primary, ...(fallbacksDisabled ? [] : getFallbackTargets(loadFallbackChain(), primary))];
+    let fallbackFrom: FallbackOrigin | undefined;
+    let fullContent = '';
+    let threadId = currentThreadId;
+    // Set once the prompt is stored; a fallback then answers it instead of storing it again
+    let storedPromptId = regenerateFor?.id;
 
-      while (true) {
-        const { done, value } = await reader.read();
-        if (done) break;
-
-        const chunk = new TextDecoder().decode(value);
-        const lines = chunk.split('\n');
-
-        for (const line of lines) {
-          if (line.startsWith('data: ')) {
-            try {
-              const data = JSON.parse(line.slice(6));
-              
-              if (data.content) {
-                fullContent += data.content;
-                setMessages(prev => 
-                  prev.map(msg => 
-                    msg.id === assistantMessageId 
-                      ? { ...msg, content: fullContent }
-                      : msg
-                  )
-                );
-              }
-              
-              if (data.done && data.thread_id && !threadId) {
-                threadId = data.thread_id;
-                onThreadCreated?.(threadId);
-              }
-              
-              if (data.error) {
-                throw new Error(data.error);
-              }
-            } catch (parseError) {
-              console.error('Error parsing SSE data:', parseError);
+    try {
+
+      // Fallbacks are held to their own key's limits; the chosen model's key was checked above
+      const keyFor = (target: FallbackTarget) => findKeyForChat(apiKeys, target.provider, threadKeyId);
+      const canTry = (target: FallbackTarget) => {
+        const targetKey = keyFor(target);
+        if (!targetKey) return true;
+        const confirmed = options.budgetConfirmed && targetKey.id === key?.id;
+        return checkKeyLimits(targetKey, spendByKey[targetKey.id] ?? 0, confirmed).status === 'ok';
+      };
+
+      const events = streamWithFallbacks(targets, (attempt, signal) => {
+        const targetKey = attempt.index > 0 ? keyFor(attempt.target) : undefined;
+        if (targetKey) recordKeyRequest(targetKey.id);
+        return getChatAdapter().stream({
+          message: messageContent,
+          thread_id: threadId,
+          provider: attempt.target.provider,
+          model_name: attempt.target.model,
+          stream: true,
+          parent_message_id: storedPromptId ?? userMessage.parentId,
+          regenerate: !!storedPromptId,
+          settings: settingsForProvider(threadSettings, attempt.target.provider),
+          assistant_id: threadId ? undefined : assistant?.id,
+          content_parts: userMessage.contentParts,
+          attachments: storedPromptId ? undefined : userMessage.attachments?.map(({ name, kind, size }) => ({ name, kind, size })),
+          // Only a pinned key is sent; otherwise the server starts from the provider's default
+          api_key_id: attempt.index === 0 && key && key.id === threadKeyId ? key.id : undefined,
+          fallback_from: attempt.fallbackFrom,
+          fallbacks_disabled: threadId ? undefined : fallbacksDisabled || undefined,
+        }, signal);
+      }, abortController.signal, canTry);
+
+      for await (const event of events) {
+        switch (event.type) {
+          case 'delta':
+            fullContent += event.content;
+            updateAssistantMessage({ content: fullContent });
+            break;
+          case 'usage':
+            updateAssistantMessage({ usage: event.usage });
+            break;
+          case 'key':
+            updateAssistantMessage({ apiKeyId: event.apiKeyId, failedOver: event.failedOver });
+            break;
+          case 'fallback':
+            fallbackFrom = event.from;
+            updateAssistantMessage({
+              provider: event.target.provider,
+              model: event.target.model,
+              fallbackFrom,
+              usage: undefined,
+              apiKeyId: undefined,
+              failedOver: undefined,
+            });
+            break;
+          case 'done':
+            // Adopt server-assigned ids so later branches can reference these messages
+            if (event.userMessageId && !storedPromptId) {
+              renameMessage(userMessageId, event.userMessageId);
+              userMessageId = event.userMessageId;
+              storedPromptId = event.userMessageId;
+            }
+            if (event.assistantMessageId) {
+              renameMessage(assistantMessageId, event.assistantMessageId);
+              assistantMessageId = event.assistantMessageId;
+            }
+            if (event.threadId && !threadId) {
+              threadId = event.threadId;
             }
-          }
+            break;
         }
       }
 
       // Mark message as complete
-      setMessages(prev => 
-        prev.map(msg => 
-          msg.id === assistantMessageId 
-            ? { ...msg, isStreaming: false }
-            : msg
-        )
-      );
+      updateAssistantMessage({ isStreaming: false });
+      // Refresh spend so budget alerts follow this conversation's usage
+      loadKeyBudgets();
 
       // Update model and provider if they were changed during retry
       if (retryProvider && retryModel) {
@@ -218,32 +650,323 @@ export function ChatInterface({
       }
 
     } catch (error) {
+      // Drops the assistant message and goes back to the variant that was showing before it
+      const discardAnswer = () => {
+        const discardedId = assistantMessageId;
+        setMessages(prev => prev.filter(msg => msg.id !== discardedId));
+        if (previousSelection) {
+          setBranchSelection(prev => ({ ...prev, [userMessageId]: previousSelection }));
+        }
+      };
+
+      if (abortController.signal.aborted) {
+        // Keep whatever streamed before the user stopped generation; an empty answer is not worth keeping
+        if (fullContent) {
+          updateAssistantMessage({ isStreaming: false, isStopped: true });
+        } else {
+          discardAnswer();
+        }
+        return;
+      }
+
       console.error('Error sending message:', error);
-      
-      // Remove the failed assistant message
-      setMessages(prev => prev.filter(msg => msg.id !== assistantMessageId));
+      discardAnswer();
       
       toast({
-        title: "Error",
+        title: fallbackFrom ? "Fallback models failed too" : "Error",
         description: error instanceof Error ? error.message : "Failed to send message",
         variant: "destructive"
       });
     } finally {
+      if (abortControllerRef.current === abortController) {
+        abortControllerRef.current = null;
+      }
       setIsLoading(false);
       setRetryingMessageId(null);
+      // A new thread is opened once the answer ends, even one that was stopped or failed,
+      // unless the user has left the chat in the meantime
+      if (isMountedRef.current && threadId && threadId !== currentThreadId) {
+        adoptNewChatDraft(threadId);
+        onThreadCreated?.(threadId);
+      }
     }
   };
 
+  // Puts a new prompt that was held back into the composer so it is not lost
+  const cancelSend = (content: string, options: SendOptions) => {
+    setRetryingMessageId(null);
+    if (options.regenerateFor || options.parentId !== undefined) return;
+    updateInputValue(content);
+    setAttachments(options.attachments ?? []);
+  };
+
+  const handleBudgetConfirmed = (e: React.MouseEvent) => {
+    // Close by clearing the state ourselves; letting the dialog close would count as a cancel
+    e.preventDefault();
+    if (!budgetConfirmation) return;
+    const { content, options } = budgetConfirmation;
+    setBudgetConfirmation(null);
+    sendMessage(content, { ...options, budgetConfirmed: true });
+  };
+
+  const handleBudgetCancelled = () => {
+    if (!budgetConfirmation) return;
+    cancelSend(budgetConfirmation.content, budgetConfirmation.options);
+    setBudgetConfirmation(null);
+  };
+
+  const renameMessage = (from: string, to: string) => {
+    if (from === to) return;
+    setMessages(prev => replaceMessageId(prev, from, to));
+    setBranchSelection(prev => replaceSelectionId(prev, from, to));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
+  };
+
+  const supportsVision = !!modelCapabilities[selectedProvider]?.[selectedModel]?.vision;
+
+  const updateAttachment = (id: string, patch: Partial<ComposerAttachment>) => {
+    setAttachments(prev => prev.map(attachment => attachment.id === id ? { ...attachment, ...patch } : attachment));
+  };
+
+  const addFiles = (files: File[]) => {
+    const room = MAX_ATTACHMENTS - attachments.length;
+    const errors: string[] = [];
+    if (files.length > room) {
+      errors.push(`You can attach up to ${MAX_ATTACHMENTS} files per message.`);
+    }
+
+    for (const file of files.slice(0, Math.max(room, 0))) {
+      let kind: AttachmentKind;
+      try {
+        kind = validateAttachment(file, supportsVision);
+      } catch (error) {
+        errors.push(error instanceof Error ? error.message : `${file.name} could not be attached.`);
+        continue;
+      }
+
+      const id = `${Date.now()}_${Math.random().toString(36).slice(2)}`;
+      setAttachments(prev => [...prev, { id, name: file.name, kind, size: file.size, status: 'processing' }]);
+      readAttachment(file, kind)
+        .then(content => updateAttachment(id, { ...content, status: 'ready' }))
+        .catch(error => {
+          console.error('Failed to read attachment:', error);
+          updateAttachment(id, {
+            status: 'error',
+            error: error instanceof AttachmentError ? error.message : 'Could not read this file',
+          });
+        });
+    }
+
+    if (errors.length > 0) {
+      toast({
+        title: "Some files were not attached",
+        description: errors.join(' '),
+        variant: "destructive"
+      });
+    }
+  };
+
+  const removeAttachment = (index: number) => {
+    setAttachments(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handlePaste = (e: React.ClipboardEvent) => {
+    const files = Array.from(e.clipboardData.files);
+    if (files.length === 0) return;
+    // Keep pasted text as text; only take over when the clipboard holds just files
+    if (!e.clipboardData.getData('text/plain')) e.preventDefault();
+    addFiles(files);
+  };
+
+  const dropZoneProps = {
+    onDragOver: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files') || isLoading || comparison) return;
+      e.preventDefault();
+      setIsDraggingFiles(true);
+    },
+    onDragLeave: (e: React.DragEvent) => {
+      if (!e.currentTarget.contains(e.relatedTarget as Node)) setIsDraggingFiles(false);
+    },
+    onDrop: (e: React.DragEvent) => {
+      if (!e.dataTransfer.types.includes('Files')) return;
+      e.preventDefault();
+      setIsDraggingFiles(false);
+      if (isLoading || comparison) return;
+      addFiles(Array.from(e.dataTransfer.files));
+    },
+  };
+
+  // Why the current attachments can't be sent yet, if they can't
+  const attachmentProblem = attachments.some(attachment => attachment.status === 'processing')
+    ? 'Attachments are still being read'
+    : attachments.some(attachment => attachment.status === 'error')
+      ? 'Remove the attachments that could not be read'
+      : !supportsVision && attachments.some(attachment => attachment.kind === 'image')
+        ? `${selectedModel} does not accept images. Remove them or pick a vision model.`
+        : null;
+
+  // Rough size of the next request, to warn before it outgrows the model's context window
+  const contextWindow = getModelPricing(selectedModel)?.contextWindow;
+  const pendingContextTokens = contextWindow
+    ? estimateConversationTokens(
+      [
+        ...visibleMessages,
+        { content: inputValue },
+        ...attachments.map(attachment => ({ content: attachment.text ?? '' })),
+      ],
+      threadSettings.system_prompt
+    )
+    : 0;
+  const contextUse = contextWindow ? pendingContextTokens / contextWindow : 0;
+  const contextWarning = contextUse >= 1
+    ? `This conversation is about ${formatTokenCount(pendingContextTokens)} tokens, more than ${selectedModel}'s ${formatTokenCount(contextWindow!)} context window. The request will probably fail; start a new chat or pick a model with a larger window.`
+    : contextUse >= CONTEXT_WARNING_RATIO
+      ? `This conversation is about ${formatTokenCount(pendingContextTokens)} tokens, ${Math.round(contextUse * 100)}% of ${selectedModel}'s ${formatTokenCount(contextWindow!)} context window.`
+      : null;
+
+  const budgetWarning = activeKey && activeBudget?.exhausted
+    ? `${activeKey.key_name} has spent its ${formatCost(activeBudget.budget)} monthly budget. ${activeKey.on_budget_exhausted === 'block' ? 'Sending is blocked until the budget is raised or the month ends.' : "You'll be asked to confirm before sending."}`
+    : activeKey && activeBudget?.threshold
+      ? `${activeKey.key_name} has used ${formatCost(activeBudget.spend)} of its ${formatCost(activeBudget.budget)} monthly budget (${Math.round(activeBudget.percent)}%).`
+      : null;
+
   const handleSend = () => {
-    if (inputValue.trim() && !isLoading) {
-      sendMessage(inputValue.trim());
+    if ((!inputValue.trim() && attachments.length === 0) || isLoading) return;
+    if (attachmentProblem) {
+      toast({
+        title: "Can't send yet",
+        description: attachmentProblem,
+        variant: "destructive"
+      });
+      return;
     }
+    // Cleared first: a send held back by a key limit puts the prompt back
+    const content = inputValue.trim();
+    updateInputValue("");
+    setAttachments([]);
+    sendMessage(content, { attachments });
+  };
+
+  const handleStartComparison = (targets: ModelTarget[]) => {
+    if (!inputValue.trim() || isLoading) return;
+
+    // Every model runs on its own key, so each one is held to that key's limits
+    const unavailable: Record<number, string> = {};
+    targets.forEach((target, index) => {
+      const key = findKeyForChat(apiKeys, target.provider, threadKeyId);
+      if (!key) return;
+      const check = checkKeyLimits(key, spendByKey[key.id] ?? 0);
+      if (check.status === 'ok') {
+        recordKeyRequest(key.id);
+      } else {
+        unavailable[index] = check.status === 'blocked'
+          ? check.description
+          : `${key.key_name} has used its ${formatCost(check.budget.budget)} budget for this month. Send to this model on its own to confirm going over it.`;
+      }
+    });
+
+    setComparison({
+      id: Date.now(),
+      prompt: inputValue.trim(),
+      targets,
+      unavailable,
+      parentMessageId: visibleMessages[visibleMessages.length - 1]?.id ?? null,
+      settings: threadSettings,
+    });
+    updateInputValue("");
   };
 
-  const handleKeyPress = (e: React.KeyboardEvent) => {
+  const handleComparisonWinner = async (target: ModelTarget, content: string) => {
+    if (!comparison) return;
+    const { prompt, parentMessageId } = comparison;
+
+    try {
+      let threadId = currentThreadId;
+      if (!threadId) {
+        const thread = await createThread({
+          title: prompt.slice(0, 50),
+          provider: target.provider,
+          model_name: target.model,
+          settings: threadSettings,
+          assistant_id: assistant?.id,
+          api_key_id: threadKeyId,
+          fallbacks_disabled: fallbacksDisabled || undefined,
+        });
+        threadId = thread.id;
+      }
+
+      const created = await appendThreadMessages(threadId, [
+        { role: 'user', content: prompt },
+        { role: 'assistant', content, provider: target.provider, model_name: target.model },
+      ], parentMessageId);
+
+      // Chain the stored pair onto the branch the comparison was started from
+      const newMessages = created.map(toMessage);
+      newMessages.forEach((message, index) => {
+        if (!message.parentId) {
+          message.parentId = index === 0 ? parentMessageId : newMessages[index - 1].id;
+        }
+      });
+      const allMessages = [...messages, ...newMessages];
+      setMessages(allMessages);
+      if (newMessages.length > 0) {
+        setBranchSelection(prev => selectBranch(allMessages, prev, newMessages[newMessages.length - 1].id));
+      }
+      setComparison(null);
+
+      // Continue the conversation with the winning model
+      onProviderChange?.(target.provider);
+      onModelChange?.(target.model);
+      if (threadId !== currentThreadId) {
+        adoptNewChatDraft(threadId);
+        onThreadCreated?.(threadId);
+      }
+    } catch (error) {
+      console.error('Failed to save comparison winner:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save the selected answer",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleComposerKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    // Enter while an IME is composing confirms the candidate, it must not send
+    if (e.nativeEvent.isComposing || e.keyCode === 229) return;
+
     if (e.key === 'Enter' && !e.shiftKey) {
       e.preventDefault();
       handleSend();
+    } else if (e.key === 'Escape' && isLoading) {
+      e.preventDefault();
+      handleStop();
+    } else if (e.key === 'ArrowUp' && !inputValue && !isLoading) {
+      // Like most chat apps, Up in an empty composer edits the last prompt
+      const lastUserMessage = [...visibleMessages].reverse().find(msg => msg.role === 'user');
+      if (lastUserMessage) {
+        e.preventDefault();
+        setEditingMessageId(lastUserMessage.id);
+      }
+    }
+  };
+
+  // Exports the branch currently on screen
+  const handleExport = async (format: ExportFormat) => {
+    if (!currentThreadId) return;
+
+    try {
+      await exportConversations([currentThreadId], format, { [currentThreadId]: branchSelection });
+    } catch (error) {
+      console.error('Failed to export conversation:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export conversation",
+        variant: "destructive"
+      });
     }
   };
 
@@ -262,114 +985,319 @@ export function ChatInterface({
     });
   };
 
-  const handleRetry = (messageId: string) => {
-    const messageIndex = messages.findIndex(msg => msg.id === messageId);
-    if (messageIndex === -1) return;
+  const findPrompt = (assistantMessageId: string) => {
+    const assistantMessage = messages.find(msg => msg.id === assistantMessageId);
+    const userMessage = messages.find(msg => msg.id === assistantMessage?.parentId);
+    return userMessage?.role === 'user' ? userMessage : undefined;
+  };
 
-    const userMessageIndex = messageIndex - 1;
-    if (userMessageIndex < 0 || messages[userMessageIndex].role !== 'user') return;
+  const handleRetry = (messageId: string) => {
+    if (isLoading) return;
+    const userMessage = findPrompt(messageId);
+    if (!userMessage) return;
 
-    const userMessage = messages[userMessageIndex];
-    
-    // Remove the assistant message we're retrying
-    setMessages(prev => prev.filter(msg => msg.id !== messageId));
+    // The new answer is added as a sibling variant; the current one is kept
     setRetryingMessageId(messageId);
     
     // Resend with same model
-    sendMessage(userMessage.content);
+    sendMessage(userMessage.content, { regenerateFor: userMessage });
   };
 
   const handleRetryWithDifferentModel = (messageId: string, provider: string, model: string) => {
-    const messageIndex = messages.findIndex(msg => msg.id === messageId);
-    if (messageIndex === -1) return;
-
-    const userMessageIndex = messageIndex - 1;
-    if (userMessageIndex < 0 || messages[userMessageIndex].role !== 'user') return;
+    if (isLoading) return;
+    const userMessage = findPrompt(messageId);
+    if (!userMessage) return;
 
-    const userMessage = messages[userMessageIndex];
-    
-    // Remove the assistant message we're retrying
-    setMessages(prev => prev.filter(msg => msg.id !== messageId));
+    // The new answer is added as a sibling variant; the current one is kept
     setRetryingMessageId(messageId);
     
     // Resend with different model
-    sendMessage(userMessage.content, provider, model);
+    sendMessage(userMessage.content, { regenerateFor: userMessage, provider, model });
   };
 
-  if (messages.length === 0 && !currentThreadId) {
-    return (
-      <div className="flex-1 flex flex-col items-center justify-center p-8 text-center">
-        <div className="w-16 h-16 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center mb-6">
-          <Bot className="w-8 h-8 text-white" />
-        </div>
-        <h2 className="text-2xl font-bold text-white mb-2">Welcome to BYOK Chat</h2>
-        <p className="text-slate-400 mb-8 max-w-md">
-          Start a conversation with AI using your own API keys. Your conversations are private and secure.
+  const handleEdit = (message: Message, content: string) => {
+    if (isLoading || !content.trim()) return;
+    // The edited prompt becomes a sibling of the original, keeping the old branch intact
+    sendMessage(content.trim(), { parentId: message.parentId, editedFrom: message });
+  };
+
+  const handleNavigateSibling = (message: Message, direction: -1 | 1) => {
+    const siblings = getSiblings(messages, message);
+    const target = siblings[siblings.indexOf(message) + direction];
+    if (!target) return;
+    setBranchSelection(prev => selectBranch(messages, prev, target.id));
+  };
+
+  // Typing "/" at the start of the composer opens the prompt library picker
+  const promptQuery = inputValue.match(/^\/(.*)$/)?.[1];
+  const showPromptPicker = promptQuery !== undefined && !promptPickerDismissed && !templateToFill && !isLoading && !comparison;
+
+  const updateInputValue = (value: string) => {
+    setInputValue(value);
+    saveDraft(currentThreadId, value);
+  };
+
+  const handleInputChange = (value: string) => {
+    updateInputValue(value);
+    if (!value.startsWith('/')) setPromptPickerDismissed(false);
+  };
+
+  const handleTemplateSelect = (template: PromptTemplate) => {
+    if (extractVariables(template.content).length > 0) {
+      // The picker closes while the variables are filled in; cancelling brings it back
+      setPromptPickerDismissed(true);
+      setTemplateToFill(template);
+    } else {
+      updateInputValue(template.content);
+    }
+  };
+
+  const handleTemplateFilled = (content: string) => {
+    setTemplateToFill(null);
+    updateInputValue(content);
+  };
+
+  const composer = (
+    <div className="relative">
+      {showPromptPicker && (
+        <PromptPicker
+          query={promptQuery}
+          templates={promptTemplates}
+          composerRef={composerRef}
+          onSelect={handleTemplateSelect}
+          onDismiss={() => setPromptPickerDismissed(true)}
+        />
+      )}
+      <PromptVariablesDialog
+        template={templateToFill}
+        onSubmit={handleTemplateFilled}
+        onCancel={() => {
+          setTemplateToFill(null);
+          setPromptPickerDismissed(false);
+        }}
+      />
+      <AlertDialog open={!!budgetConfirmation} onOpenChange={(open) => !open && handleBudgetCancelled()}>
+        <AlertDialogContent className="bg-slate-800 border-slate-700 text-white">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Monthly budget spent</AlertDialogTitle>
+            <AlertDialogDescription className="text-slate-400">
+              {budgetConfirmation && `${budgetConfirmation.key.key_name} has used its ${formatCost(budgetConfirmation.key.monthly_budget_usd ?? 0)} budget for this month. Sending will add to the overspend.`}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white">
+              Cancel
+            </AlertDialogCancel>
+            <AlertDialogAction onClick={handleBudgetConfirmed} className="bg-red-600 hover:bg-red-700 text-white">
+              Send anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+      <AttachmentChips
+        attachments={attachments.map(attachment => ({ ...attachment, previewUrl: attachment.dataUrl }))}
+        onRemove={removeAttachment}
+        className="mb-2 text-left"
+      />
+      {attachmentProblem && !attachments.some(attachment => attachment.status === 'processing') && (
+        <p className="mb-2 text-left text-xs text-amber-400">{attachmentProblem}</p>
+      )}
+      {contextWarning && (
+        <p className={cn("mb-2 text-left text-xs", contextUse >= 1 ? "text-red-400" : "text-amber-400")}>
+          {contextWarning}
         </p>
-        <div className="w-full max-w-2xl">
-          <div className="flex gap-2">
-            <Input
-              value={inputValue}
-              onChange={(e) => setInputValue(e.target.value)}
-              onKeyPress={handleKeyPress}
-              placeholder="Type your message here..."
-              className="flex-1 bg-slate-800/50 border-slate-600 text-white placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              disabled={isLoading}
-            />
-            <Button 
-              onClick={handleSend}
-              disabled={!inputValue.trim() || isLoading}
-              className="bg-blue-600 hover:bg-blue-700 text-white px-4"
+      )}
+      {budgetWarning && (
+        <p className={cn("mb-2 text-left text-xs", activeBudget?.exhausted ? "text-red-400" : "text-amber-400")}>
+          {budgetWarning}
+        </p>
+      )}
+      <div className="flex items-end gap-2">
+        <input
+          ref={fileInputRef}
+          type="file"
+          multiple
+          className="hidden"
+          onChange={(e) => {
+            addFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+        <Button
+          variant="outline"
+          onClick={() => fileInputRef.current?.click()}
+          disabled={isLoading || !!comparison}
+          title="Attach files"
+          className="bg-slate-800/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white px-3"
+        >
+          <Paperclip className="w-4 h-4" />
+        </Button>
+        <AutoResizeTextarea
+          ref={composerRef}
+          value={inputValue}
+          onChange={(e) => handleInputChange(e.target.value)}
+          onKeyDown={handleComposerKeyDown}
+          onPaste={handlePaste}
+          placeholder="Message... (Shift+Enter for a new line, / for saved prompts)"
+          className="flex-1 bg-slate-800/50 border-slate-600 text-white placeholder:text-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent focus-visible:ring-offset-0"
+          disabled={!!comparison}
+        />
+        {getFailoverOrder(apiKeys, selectedProvider).length > 1 && (
+          <KeyPicker
+            apiKeys={apiKeys}
+            provider={selectedProvider}
+            pinnedKeyId={threadKeyId}
+            onChange={handleKeyPinChange}
+            disabled={isLoading || !!comparison}
+          />
+        )}
+        <ThreadSettingsSheet
+          settings={threadSettings}
+          fallbacksDisabled={fallbacksDisabled}
+          provider={selectedProvider}
+          onSave={handleSaveSettings}
+          disabled={!!comparison}
+        />
+        {currentThreadId && (
+          <ExportMenu label="Export conversation" onExport={handleExport}>
+            <Button
+              variant="outline"
+              disabled={isLoading || !!comparison}
+              title="Export conversation"
+              className="bg-slate-800/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white px-3"
             >
-              <Send className="w-4 h-4" />
+              <Download className="w-4 h-4" />
             </Button>
-          </div>
+          </ExportMenu>
+        )}
+        {!isLoading && (
+          <ComparisonSetupPopover
+            currentProvider={selectedProvider}
+            currentModel={selectedModel}
+            onStart={handleStartComparison}
+            canStart={!!inputValue.trim()}
+            disabled={!!comparison || attachments.length > 0}
+          />
+        )}
+        {isLoading ? (
+          <Button
+            onClick={handleStop}
+            title="Stop generating"
+            className="bg-slate-700 hover:bg-slate-600 text-white px-4"
+          >
+            <Square className="w-4 h-4 fill-current" />
+          </Button>
+        ) : (
+          <Button 
+            onClick={handleSend}
+            disabled={(!inputValue.trim() && attachments.length === 0) || !!comparison}
+            className="bg-blue-600 hover:bg-blue-700 text-white px-4"
+          >
+            <Send className="w-4 h-4" />
+          </Button>
+        )}
+      </div>
+    </div>
+  );
+
+  const dropOverlay = isDraggingFiles && (
+    <div className="absolute inset-0 z-30 m-2 flex flex-col items-center justify-center gap-2 rounded-xl border-2 border-dashed border-blue-500 bg-slate-900/80 text-slate-200 pointer-events-none">
+      <Upload className="w-8 h-8 text-blue-400" />
+      <p className="text-sm">Drop images, PDFs or text files to attach them</p>
+    </div>
+  );
+
+  if (messages.length === 0 && !currentThreadId && !comparison) {
+    return (
+      <div className="relative flex-1 flex flex-col items-center justify-center p-8 text-center" {...dropZoneProps}>
+        {dropOverlay}
+        {assistant ? (
+          <>
+            <AssistantAvatar assistant={assistant} className="w-16 h-16 rounded-full text-3xl mb-6" />
+            <h2 className="text-2xl font-bold text-white mb-2">{assistant.name}</h2>
+            <p className="text-slate-400 mb-8 max-w-md">
+              New chat with {assistant.model_name}, using this assistant's system prompt and parameters.
+            </p>
+          </>
+        ) : (
+          <>
+            <div className="w-16 h-16 rounded-full bg-gradient-to-br from-blue-500 to-purple-600 flex items-center justify-center mb-6">
+              <Bot className="w-8 h-8 text-white" />
+            </div>
+            <h2 className="text-2xl font-bold text-white mb-2">Welcome to BYOK Chat</h2>
+            <p className="text-slate-400 mb-8 max-w-md">
+              Start a conversation with AI using your own API keys. Your conversations are private and secure.
+            </p>
+          </>
+        )}
+        <div className="w-full max-w-2xl">
+          {composer}
         </div>
       </div>
     );
   }
 
   return (
-    <div className="flex-1 flex flex-col h-full">
+    <div className="relative flex-1 flex flex-col h-full" {...dropZoneProps}>
+      {dropOverlay}
+      {!comparison && threadUsage.outputTokens > 0 && (
+        <div className="flex items-center justify-end gap-2 border-b border-slate-700/50 px-6 py-2 text-xs text-slate-400">
+          <span>Conversation total</span>
+          <UsageLabel usage={threadUsage} className="text-slate-300" />
+        </div>
+      )}
       {/* Messages Area */}
       <div className="flex-1 min-h-0">
-        <ScrollArea ref={scrollAreaRef} className="h-full">
-          <div className="space-y-6 p-6">
-            {messages.map((message) => (
-              <ChatMessage
-                key={message.id}
-                message={message}
-                onCopy={() => handleCopy(message.content)}
-                onFeedback={(type) => handleFeedback(message.id, type)}
-                onRetry={message.role === 'assistant' ? () => handleRetry(message.id) : undefined}
-                onRetryWithDifferentModel={message.role === 'assistant' ? (provider, model) => handleRetryWithDifferentModel(message.id, provider, model) : undefined}
-                isLoading={isLoading && retryingMessageId === message.id}
-                currentProvider={selectedProvider}
-                currentModel={selectedModel}
-              />
-            ))}
-          </div>
-        </ScrollArea>
+        {comparison ? (
+          <ComparisonView
+            key={comparison.id}
+            prompt={comparison.prompt}
+            targets={comparison.targets}
+            unavailable={comparison.unavailable}
+            threadId={currentThreadId}
+            parentMessageId={comparison.parentMessageId}
+            settings={comparison.settings}
+            onSelectWinner={handleComparisonWinner}
+            onClose={() => setComparison(null)}
+          />
+        ) : (
+          <ScrollArea ref={scrollAreaRef} className="h-full">
+            <div className="space-y-6 p-6">
+              {visibleMessages.map((message, index) => {
+                const siblings = getSiblings(messages, message);
+                return (
+                  <ChatMessage
+                    key={message.id}
+                    message={message}
+                    siblingIndex={siblings.indexOf(message)}
+                    siblingCount={siblings.length}
+                    onNavigateSibling={(direction) => handleNavigateSibling(message, direction)}
+                    onEdit={message.role === 'user' && !isLoading ? (content) => handleEdit(message, content) : undefined}
+                    isEditing={message.id === editingMessageId}
+                    onEditingChange={(editing) => setEditingMessageId(editing ? message.id : null)}
+                    onCopy={() => handleCopy(message.content)}
+                    onFeedback={(type) => handleFeedback(message.id, type)}
+                    onRetry={message.role === 'assistant' ? () => handleRetry(message.id) : undefined}
+                    onRetryWithDifferentModel={message.role === 'assistant' ? (provider, model) => handleRetryWithDifferentModel(message.id, provider, model) : undefined}
+                    isLoading={isLoading}
+                    isRetrying={isLoading && retryingMessageId === message.id}
+                    currentProvider={selectedProvider}
+                    currentModel={selectedModel}
+                    isHighlighted={message.id === highlightedMessageId}
+                    usage={pathUsage[index]}
+                    keyName={message.apiKeyId ? keyNames[message.apiKeyId] ?? 'Deleted key' : undefined}
+                  />
+                );
+              })}
+            </div>
+          </ScrollArea>
+        )}
       </div>
 
       {/* Input Area */}
       <div className="border-t border-slate-700/50 p-4">
-        <div className="flex gap-2 max-w-4xl mx-auto">
-          <Input
-            value={inputValue}
-            onChange={(e) => setInputValue(e.target.value)}
-            onKeyPress={handleKeyPress}
-            placeholder="Type your message here..."
-            className="flex-1 bg-slate-800/50 border-slate-600 text-white placeholder-slate-400 focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-            disabled={isLoading}
-          />
-          <Button 
-            onClick={handleSend}
-            disabled={!inputValue.trim() || isLoading}
-            className="bg-blue-600 hover:bg-blue-700 text-white px-4"
-          >
-            <Send className="w-4 h-4" />
-          </Button>
+        <div className="max-w-4xl mx-auto">
+          {composer}
         </div>
       </div>
     </div>
@@ -1,19 +1,18 @@
 
+import { useState, useEffect } from "react";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
-import { Copy, ThumbsUp, ThumbsDown, User, Bot, RefreshCw } from "lucide-react";
+import { Textarea } from "@/components/ui/textarea";
+import { Copy, ThumbsUp, ThumbsDown, User, Bot, RefreshCw, Square, Pencil, KeyRound, ArrowRightLeft } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { ModelSelectionPopover } from "./ModelSelectionPopover";
-
-interface Message {
-  id: string;
-  role: 'user' | 'assistant';
-  content: string;
-  timestamp: Date;
-  isStreaming?: boolean;
-  model?: string;
-  provider?: string;
-}
+import { MarkdownContent } from "./MarkdownContent";
+import { BranchNavigator } from "./BranchNavigator";
+import { AttachmentChips } from "./AttachmentChips";
+import { UsageLabel } from "./UsageLabel";
+import type { UsageSummary } from "@/lib/token-usage";
+import { FALLBACK_REASON_LABELS } from "@/lib/fallback-chain";
+import type { Message } from "./types";
 
 interface ChatMessageProps {
   message: Message;
@@ -21,9 +20,23 @@ interface ChatMessageProps {
   onFeedback: (type: 'up' | 'down') => void;
   onRetry?: () => void;
   onRetryWithDifferentModel?: (provider: string, model: string) => void;
+  /** An answer is being generated somewhere in the chat; retrying waits for it. */
   isLoading?: boolean;
+  /** This message's answer is the one being generated again. */
+  isRetrying?: boolean;
   currentProvider?: string;
   currentModel?: string;
+  onEdit?: (content: string) => void;
+  isEditing?: boolean;
+  onEditingChange?: (editing: boolean) => void;
+  siblingIndex?: number;
+  siblingCount?: number;
+  onNavigateSibling?: (direction: -1 | 1) => void;
+  isHighlighted?: boolean;
+  /** Token counts and cost of an assistant message. */
+  usage?: UsageSummary;
+  /** Name of the key that served an assistant message. */
+  keyName?: string;
 }
 
 export function ChatMessage({ 
@@ -33,20 +46,60 @@ export function ChatMessage({
   onRetry, 
   onRetryWithDifferentModel,
   isLoading,
+  isRetrying,
   currentProvider = 'openai',
-  currentModel = 'gpt-4'
+  currentModel = 'gpt-4',
+  onEdit,
+  isEditing = false,
+  onEditingChange,
+  siblingIndex = 0,
+  siblingCount = 1,
+  onNavigateSibling,
+  isHighlighted,
+  usage,
+  keyName
 }: ChatMessageProps) {
   const isUser = message.role === 'user';
+  const [draft, setDraft] = useState(message.content);
+
+  // Editing can also be started from the composer (Up arrow), so reset the draft whenever it begins
+  useEffect(() => {
+    if (isEditing) setDraft(message.content);
+  }, [isEditing, message.content]);
+
+  const setIsEditing = (editing: boolean) => onEditingChange?.(editing);
+
+  const handleSubmitEdit = () => {
+    const content = draft.trim();
+    if (!content) return;
+    setIsEditing(false);
+    if (content !== message.content.trim()) {
+      onEdit?.(content);
+    }
+  };
+
+  const handleEditKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !e.shiftKey && !e.nativeEvent.isComposing) {
+      e.preventDefault();
+      handleSubmitEdit();
+    } else if (e.key === 'Escape') {
+      setIsEditing(false);
+    }
+  };
 
   const handleModelSelect = (provider: string, model: string) => {
     onRetryWithDifferentModel?.(provider, model);
   };
 
   return (
-    <div className={cn(
-      "flex gap-4 group max-w-4xl mx-auto",
-      isUser ? "flex-row-reverse" : "flex-row"
-    )}>
+    <div
+      data-message-id={message.id}
+      className={cn(
+        "flex gap-4 group max-w-4xl mx-auto rounded-lg transition-shadow duration-500",
+        isUser ? "flex-row-reverse" : "flex-row",
+        isHighlighted && "ring-2 ring-yellow-400/60 ring-offset-4 ring-offset-slate-900"
+      )}
+    >
       {/* Avatar */}
       <div className={cn(
         "w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0",
@@ -79,33 +132,112 @@ export function ChatMessage({
                 {message.model}
               </Badge>
             )}
+            {message.fallbackFrom && (
+              <Badge
+                variant="secondary"
+                title={`${message.fallbackFrom.model_name} (${message.fallbackFrom.provider}) ${FALLBACK_REASON_LABELS[message.fallbackFrom.reason]}, so this answer came from the next model in the fallback chain`}
+                className="text-xs bg-amber-500/20 text-amber-300"
+              >
+                <ArrowRightLeft className="w-3 h-3 mr-1" />
+                Fallback: {message.fallbackFrom.model_name} {FALLBACK_REASON_LABELS[message.fallbackFrom.reason]}
+              </Badge>
+            )}
+            {keyName && (
+              <Badge
+                variant="secondary"
+                title={message.failedOver ? `Answered by ${keyName} after earlier keys failed` : `Answered using ${keyName}`}
+                className={cn(
+                  "text-xs",
+                  message.failedOver ? "bg-amber-500/20 text-amber-300" : "bg-slate-700/50 text-slate-400"
+                )}
+              >
+                <KeyRound className="w-3 h-3 mr-1" />
+                {keyName}
+                {message.failedOver && ' (failover)'}
+              </Badge>
+            )}
           </div>
         )}
 
-        <div className={cn(
-          "rounded-lg px-4 py-3 break-words",
-          isUser 
-            ? "bg-blue-600 text-white ml-auto" 
-            : "bg-slate-800/50 text-slate-100 border border-slate-700/50"
-        )}>
-          <div className="whitespace-pre-wrap leading-relaxed">
-            {message.content}
-            {message.isStreaming && (
-              <span className="inline-block w-2 h-5 bg-current animate-pulse ml-1" />
+        {message.attachments && message.attachments.length > 0 && (
+          <AttachmentChips attachments={message.attachments} className={cn(isUser && "justify-end")} />
+        )}
+
+        {isEditing ? (
+          <div className="space-y-2">
+            <Textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={handleEditKeyDown}
+              autoFocus
+              className="min-h-[80px] bg-slate-800/50 border-slate-600 text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            />
+            <div className="flex justify-end gap-2">
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsEditing(false)}
+                className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700"
+              >
+                Cancel
+              </Button>
+              <Button
+                size="sm"
+                onClick={handleSubmitEdit}
+                disabled={!draft.trim()}
+                className="bg-blue-600 hover:bg-blue-700 text-white"
+              >
+                Save & Submit
+              </Button>
+            </div>
+          </div>
+        ) : (message.content || !message.attachments?.length) && (
+          <div className={cn(
+            "rounded-lg px-4 py-3 break-words",
+            isUser 
+              ? "bg-blue-600 text-white ml-auto" 
+              : "bg-slate-800/50 text-slate-100 border border-slate-700/50"
+          )}>
+            {isUser ? (
+              <div className="whitespace-pre-wrap leading-relaxed">
+                {message.content}
+              </div>
+            ) : (
+              <>
+                <MarkdownContent content={message.content} isStreaming={message.isStreaming} />
+                {message.isStreaming && (
+                  <span className="inline-block w-2 h-5 bg-current animate-pulse ml-1" />
+                )}
+              </>
+            )}
+            {message.isStopped && (
+              <div className="flex items-center gap-1 mt-2 text-xs text-slate-400 italic">
+                <Square className="w-3 h-3" />
+                Generation stopped
+              </div>
             )}
           </div>
-        </div>
+        )}
 
         {/* Message Actions */}
         <div className="flex items-center justify-between">
           <div className={cn(
-            "text-xs text-slate-500",
-            isUser ? "text-right order-2" : "text-left order-1"
+            "flex items-center gap-2 text-xs text-slate-500",
+            isUser ? "flex-row-reverse order-2" : "order-1"
           )}>
             {message.timestamp.toLocaleTimeString()}
+            {usage && <UsageLabel usage={usage} />}
+            {onNavigateSibling && (
+              <BranchNavigator
+                index={siblingIndex}
+                count={siblingCount}
+                onNavigate={onNavigateSibling}
+                disabled={message.isStreaming}
+              />
+            )}
           </div>
 
-          {!message.isStreaming && (
+          {!message.isStreaming && !isEditing && (
             <div className={cn(
               "flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity",
               isUser ? "order-1" : "order-2"
@@ -120,6 +252,17 @@ export function ChatMessage({
                 <Copy className="w-3 h-3" />
               </Button>
 
+              {isUser && onEdit && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setIsEditing(true)}
+                  className="h-7 px-2 text-slate-400 hover:text-white hover:bg-slate-700/50"
+                >
+                  <Pencil className="w-3 h-3" />
+                </Button>
+              )}
+
               {/* Additional actions for assistant messages */}
               {!isUser && (
                 <>
@@ -147,7 +290,7 @@ export function ChatMessage({
                       disabled={isLoading}
                       className="h-7 px-2 text-slate-400 hover:text-blue-400 hover:bg-slate-700/50"
                     >
-                      <RefreshCw className={cn("w-3 h-3", isLoading && "animate-spin")} />
+                      <RefreshCw className={cn("w-3 h-3", isRetrying && "animate-spin")} />
                     </Button>
                   )}
                   {onRetryWithDifferentModel && (
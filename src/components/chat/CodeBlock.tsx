@@ -0,0 +1,46 @@
+import { isValidElement, useRef, useState, type ComponentPropsWithoutRef, type ReactElement } from "react";
+import { Button } from "@/components/ui/button";
+import { Check, Copy } from "lucide-react";
+
+function getLanguage(children: React.ReactNode) {
+  if (!isValidElement(children)) return undefined;
+  const className = (children as ReactElement<{ className?: string }>).props.className || '';
+  return /language-([\w+#-]+)/.exec(className)?.[1];
+}
+
+export function CodeBlock({ children, ...props }: ComponentPropsWithoutRef<'pre'>) {
+  const preRef = useRef<HTMLPreElement>(null);
+  const [copied, setCopied] = useState(false);
+  const language = getLanguage(children);
+
+  const handleCopy = async () => {
+    const text = preRef.current?.innerText ?? '';
+    try {
+      await navigator.clipboard.writeText(text);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 2000);
+    } catch (error) {
+      console.error('Failed to copy code block:', error);
+    }
+  };
+
+  return (
+    <div className="not-prose my-3 rounded-lg border border-slate-700/50 bg-slate-950/70 overflow-hidden">
+      <div className="flex items-center justify-between px-3 py-1 border-b border-slate-700/50 bg-slate-900/70">
+        <span className="text-xs text-slate-400 font-mono">{language || 'text'}</span>
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={handleCopy}
+          className="h-6 px-2 text-xs text-slate-400 hover:text-white hover:bg-slate-700/50"
+        >
+          {copied ? <Check className="w-3 h-3 mr-1" /> : <Copy className="w-3 h-3 mr-1" />}
+          {copied ? 'Copied' : 'Copy'}
+        </Button>
+      </div>
+      <pre ref={preRef} {...props} className="overflow-x-auto p-3 text-sm leading-relaxed">
+        {children}
+      </pre>
+    </div>
+  );
+}
@@ -0,0 +1,191 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { Columns, Plus, X } from "lucide-react";
+import { getProvidersAndModels, type Provider } from "@/lib/api";
+import type { ModelTarget } from "./types";
+
+export const MIN_COMPARISON_TARGETS = 2;
+export const MAX_COMPARISON_TARGETS = 4;
+
+interface ComparisonSetupPopoverProps {
+  currentProvider: string;
+  currentModel: string;
+  onStart: (targets: ModelTarget[]) => void;
+  canStart: boolean;
+  disabled?: boolean;
+}
+
+export function ComparisonSetupPopover({
+  currentProvider,
+  currentModel,
+  onStart,
+  canStart,
+  disabled
+}: ComparisonSetupPopoverProps) {
+  const [providers, setProviders] = useState<Provider[]>([]);
+  const [modelsByProvider, setModelsByProvider] = useState<Record<string, string[]>>({});
+  const [targets, setTargets] = useState<ModelTarget[]>([]);
+  const [open, setOpen] = useState(false);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    loadProvidersAndModels();
+  }, []);
+
+  const loadProvidersAndModels = async () => {
+    setLoading(true);
+    try {
+      const data = await getProvidersAndModels();
+      setProviders(data.providers);
+      setModelsByProvider(data.models_by_provider);
+    } catch (error) {
+      console.error('Failed to load providers and models:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    // Start from the current model plus one other choice the first time
+    if (nextOpen && targets.length === 0) {
+      const initial: ModelTarget[] = [{ provider: currentProvider, model: currentModel }];
+      const alternative = (modelsByProvider[currentProvider] || []).find(model => model !== currentModel);
+      initial.push({ provider: currentProvider, model: alternative || currentModel });
+      setTargets(initial);
+    }
+    setOpen(nextOpen);
+  };
+
+  const updateTarget = (index: number, patch: Partial<ModelTarget>) => {
+    setTargets(prev => prev.map((target, i) => {
+      if (i !== index) return target;
+      const next = { ...target, ...patch };
+      if (patch.provider && patch.provider !== target.provider) {
+        next.model = modelsByProvider[patch.provider]?.[0] || '';
+      }
+      return next;
+    }));
+  };
+
+  const addTarget = () => {
+    setTargets(prev => [...prev, { provider: currentProvider, model: currentModel }]);
+  };
+
+  const removeTarget = (index: number) => {
+    setTargets(prev => prev.filter((_, i) => i !== index));
+  };
+
+  const handleStart = () => {
+    onStart(targets);
+    setOpen(false);
+  };
+
+  const allTargetsValid = targets.length >= MIN_COMPARISON_TARGETS && targets.every(target => target.provider && target.model);
+
+  return (
+    <Popover open={open} onOpenChange={handleOpenChange}>
+      <PopoverTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          title="Compare models"
+          className="bg-slate-800/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white px-3"
+        >
+          <Columns className="w-4 h-4" />
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 bg-slate-800 border-slate-700 text-white" side="top" align="end">
+        <div className="space-y-4">
+          <div>
+            <h4 className="font-semibold text-sm mb-2">Compare Models</h4>
+            <p className="text-xs text-slate-400">
+              Send your message to {MIN_COMPARISON_TARGETS}–{MAX_COMPARISON_TARGETS} models side by side, then pick the answer to continue with
+            </p>
+          </div>
+
+          {loading ? (
+            <div className="text-center py-4 text-slate-400">Loading models...</div>
+          ) : (
+            <div className="space-y-3">
+              {targets.map((target, index) => (
+                <div key={index} className="flex items-center gap-2">
+                  <select
+                    value={target.provider}
+                    onChange={(e) => updateTarget(index, { provider: e.target.value })}
+                    className="w-1/2 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                  >
+                    {providers.map(provider => (
+                      <option key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </option>
+                    ))}
+                  </select>
+                  <select
+                    value={target.model}
+                    onChange={(e) => updateTarget(index, { model: e.target.value })}
+                    className="w-1/2 bg-slate-700 border border-slate-600 rounded-lg px-2 py-1.5 text-sm text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                    disabled={(modelsByProvider[target.provider] || []).length === 0}
+                  >
+                    {(modelsByProvider[target.provider] || []).map(model => (
+                      <option key={model} value={model}>
+                        {model}
+                      </option>
+                    ))}
+                  </select>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => removeTarget(index)}
+                    disabled={targets.length <= MIN_COMPARISON_TARGETS}
+                    className="h-7 px-2 text-slate-400 hover:text-red-400 hover:bg-slate-700/50"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ))}
+
+              {targets.length < MAX_COMPARISON_TARGETS && (
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={addTarget}
+                  className="w-full text-slate-400 hover:text-white hover:bg-slate-700/50"
+                >
+                  <Plus className="w-3 h-3 mr-1" />
+                  Add model
+                </Button>
+              )}
+
+              <div className="flex gap-2 pt-2 border-t border-slate-700">
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOpen(false)}
+                  className="flex-1 bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700"
+                >
+                  Cancel
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={handleStart}
+                  disabled={!canStart || !allTargetsValid}
+                  className="flex-1 bg-purple-600 hover:bg-purple-700 text-white"
+                >
+                  Compare
+                </Button>
+              </div>
+              {!canStart && (
+                <p className="text-xs text-amber-400">Type a message first</p>
+              )}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
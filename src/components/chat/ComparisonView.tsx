@@ -0,0 +1,219 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  ResizableHandle,
+  ResizablePanel,
+  ResizablePanelGroup,
+} from "@/components/ui/resizable";
+import { AlertCircle, Check, Square, X } from "lucide-react";
+import { ChatStreamError, getChatAdapter, type GenerationSettings } from "@/lib/api";
+import { settingsForProvider } from "@/lib/generation-settings";
+import { MarkdownContent } from "./MarkdownContent";
+import type { ModelTarget } from "./types";
+
+type ColumnStatus = 'streaming' | 'done' | 'stopped' | 'error';
+
+interface ComparisonColumn {
+  target: ModelTarget;
+  content: string;
+  status: ColumnStatus;
+  error?: string;
+}
+
+interface ComparisonViewProps {
+  prompt: string;
+  targets: ModelTarget[];
+  /** Targets that must not run, by index, with the reason shown in their column. */
+  unavailable: Record<number, string>;
+  threadId?: string;
+  parentMessageId: string | null;
+  settings: GenerationSettings;
+  onSelectWinner: (target: ModelTarget, content: string) => void;
+  onClose: () => void;
+}
+
+export function ComparisonView({
+  prompt,
+  targets,
+  unavailable,
+  threadId,
+  parentMessageId,
+  settings,
+  onSelectWinner,
+  onClose
+}: ComparisonViewProps) {
+  const [columns, setColumns] = useState<ComparisonColumn[]>(() =>
+    targets.map((target, index) => unavailable[index]
+      ? { target, content: '', status: 'error', error: unavailable[index] }
+      : { target, content: '', status: 'streaming' })
+  );
+  const abortControllersRef = useRef<AbortController[]>([]);
+
+  // Stream every target in parallel. Runs are not persisted; only the winner is
+  // stored on the thread once picked.
+  useEffect(() => {
+    const controllers = targets.map(() => new AbortController());
+    abortControllersRef.current = controllers;
+
+    const updateColumn = (index: number, patch: Partial<ComparisonColumn>) => {
+      setColumns(prev => prev.map((column, i) => i === index ? { ...column, ...patch } : column));
+    };
+
+    targets.forEach(async (target, index) => {
+      if (unavailable[index]) return;
+      const controller = controllers[index];
+      let content = '';
+      try {
+        const events = getChatAdapter().stream({
+          message: prompt,
+          thread_id: threadId,
+          provider: target.provider,
+          model_name: target.model,
+          stream: true,
+          parent_message_id: parentMessageId,
+          persist: false,
+          settings: settingsForProvider(settings, target.provider),
+        }, controller.signal);
+
+        for await (const event of events) {
+          if (event.type === 'delta') {
+            content += event.content;
+            updateColumn(index, { content });
+          } else if (event.type === 'error') {
+            throw new ChatStreamError(event.message);
+          }
+        }
+        updateColumn(index, { status: 'done' });
+      } catch (error) {
+        if (controller.signal.aborted) {
+          updateColumn(index, { status: 'stopped' });
+          return;
+        }
+        console.error(`Comparison run failed for ${target.provider}/${target.model}:`, error);
+        updateColumn(index, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Failed to get a response',
+        });
+      }
+    });
+
+    return () => controllers.forEach(controller => controller.abort());
+  }, [prompt, targets, unavailable, threadId, parentMessageId, settings]);
+
+  const isStreaming = columns.some(column => column.status === 'streaming');
+
+  const handleStopAll = () => {
+    abortControllersRef.current.forEach(controller => controller.abort());
+  };
+
+  const handlePick = (column: ComparisonColumn) => {
+    handleStopAll();
+    onSelectWinner(column.target, column.content);
+  };
+
+  return (
+    <div className="h-full flex flex-col">
+      <div className="flex items-center justify-between gap-4 px-6 py-3 border-b border-slate-700/50">
+        <div className="min-w-0">
+          <p className="text-xs text-slate-400">Comparing {columns.length} models</p>
+          <p className="text-sm text-white truncate">{prompt}</p>
+        </div>
+        <div className="flex items-center gap-2">
+          {isStreaming && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={handleStopAll}
+              className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              <Square className="w-3 h-3 mr-1 fill-current" />
+              Stop all
+            </Button>
+          )}
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onClose}
+            className="text-slate-400 hover:text-white hover:bg-slate-700/50"
+          >
+            <X className="w-4 h-4 mr-1" />
+            Discard
+          </Button>
+        </div>
+      </div>
+
+      <ResizablePanelGroup direction="horizontal" className="flex-1 min-h-0">
+        {columns.map((column, index) => (
+          <ComparisonPanel
+            key={index}
+            column={column}
+            showHandle={index > 0}
+            onPick={() => handlePick(column)}
+          />
+        ))}
+      </ResizablePanelGroup>
+    </div>
+  );
+}
+
+interface ComparisonPanelProps {
+  column: ComparisonColumn;
+  showHandle: boolean;
+  onPick: () => void;
+}
+
+function ComparisonPanel({ column, showHandle, onPick }: ComparisonPanelProps) {
+  const canPick = column.status !== 'error' && column.status !== 'streaming' && column.content.trim().length > 0;
+
+  return (
+    <>
+      {showHandle && <ResizableHandle withHandle className="bg-slate-700/50" />}
+      <ResizablePanel minSize={15} className="flex flex-col">
+        <div className="flex items-center justify-between gap-2 px-4 py-2 border-b border-slate-700/50">
+          <div className="flex items-center gap-2 min-w-0">
+            <Badge variant="secondary" className="text-xs bg-slate-700/50 text-slate-300">
+              {column.target.provider}
+            </Badge>
+            <Badge variant="secondary" className="text-xs bg-slate-700/50 text-slate-300 truncate">
+              {column.target.model}
+            </Badge>
+          </div>
+          <Button
+            size="sm"
+            onClick={onPick}
+            disabled={!canPick}
+            className="h-7 bg-purple-600 hover:bg-purple-700 text-white text-xs"
+          >
+            <Check className="w-3 h-3 mr-1" />
+            Use this
+          </Button>
+        </div>
+        <ScrollArea className="flex-1">
+          <div className="p-4 text-slate-100">
+            {column.status === 'error' ? (
+              <div className="flex items-start gap-2 text-sm text-red-400">
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0" />
+                {column.error}
+              </div>
+            ) : (
+              <>
+                <MarkdownContent content={column.content} isStreaming={column.status === 'streaming'} />
+                {column.status === 'streaming' && (
+                  <span className="inline-block w-2 h-5 bg-current animate-pulse ml-1" />
+                )}
+                {column.status === 'stopped' && (
+                  <div className="flex items-center gap-1 mt-2 text-xs text-slate-400 italic">
+                    <Square className="w-3 h-3" />
+                    Generation stopped
+                  </div>
+                )}
+              </>
+            )}
+          </div>
+        </ScrollArea>
+      </ResizablePanel>
+    </>
+  );
+}
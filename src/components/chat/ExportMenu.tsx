@@ -0,0 +1,41 @@
+import type { ReactNode } from "react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { EXPORT_FORMATS, type ExportFormat } from "@/lib/conversation-export";
+
+interface ExportMenuProps {
+  /** The button that opens the menu. */
+  children: ReactNode;
+  label: string;
+  onExport: (format: ExportFormat) => void;
+  align?: 'start' | 'end';
+}
+
+export function ExportMenu({ children, label, onExport, align = 'end' }: ExportMenuProps) {
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        {children}
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align={align} className="bg-slate-800 border-slate-700 text-slate-200">
+        <DropdownMenuLabel className="text-xs font-medium text-slate-400">{label}</DropdownMenuLabel>
+        <DropdownMenuSeparator className="bg-slate-700" />
+        {EXPORT_FORMATS.map(({ format, label: formatLabel }) => (
+          <DropdownMenuItem
+            key={format}
+            onSelect={() => onExport(format)}
+            className="focus:bg-slate-700 focus:text-white cursor-pointer"
+          >
+            {formatLabel}
+          </DropdownMenuItem>
+        ))}
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
@@ -0,0 +1,110 @@
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { cn } from "@/lib/utils";
+import {
+  getMaxStopSequences,
+  getNumericSettings,
+  hasUnsupportedSettings,
+  isSettingSupported,
+  type NumericSettingKey,
+  type SettingKey,
+  type SettingsDraft,
+} from "@/lib/generation-settings";
+
+interface GenerationSettingsFieldsProps {
+  draft: SettingsDraft;
+  onChange: (draft: SettingsDraft) => void;
+  provider: string;
+  errors: Partial<Record<SettingKey, string>>;
+  /** Prefix for input ids so two forms can be mounted at once. */
+  idPrefix?: string;
+}
+
+export function GenerationSettingsFields({
+  draft,
+  onChange,
+  provider,
+  errors,
+  idPrefix = 'settings'
+}: GenerationSettingsFieldsProps) {
+  const numericSettings = getNumericSettings(provider);
+  const maxStopSequences = getMaxStopSequences(provider);
+
+  const updateNumber = (key: NumericSettingKey, value: string) => {
+    onChange({ ...draft, numbers: { ...draft.numbers, [key]: value } });
+  };
+
+  return (
+    <div className="space-y-5">
+      {isSettingSupported(provider, 'system_prompt') && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-system-prompt`} className="text-slate-300">System prompt</Label>
+          <Textarea
+            id={`${idPrefix}-system-prompt`}
+            value={draft.systemPrompt}
+            onChange={(e) => onChange({ ...draft, systemPrompt: e.target.value })}
+            placeholder="You are a helpful assistant..."
+            rows={5}
+            className="bg-slate-700 border-slate-600 text-white placeholder:text-slate-400"
+          />
+        </div>
+      )}
+
+      {numericSettings.map(spec => (
+        <div key={spec.key} className="space-y-2">
+          <div className="flex items-baseline justify-between gap-2">
+            <Label htmlFor={`${idPrefix}-${spec.key}`} className="text-slate-300">{spec.label}</Label>
+            <span className="text-xs text-slate-500">{spec.min} – {spec.max}</span>
+          </div>
+          <Input
+            id={`${idPrefix}-${spec.key}`}
+            type="number"
+            inputMode="decimal"
+            min={spec.min}
+            max={spec.max}
+            step={spec.step}
+            value={draft.numbers[spec.key]}
+            onChange={(e) => updateNumber(spec.key, e.target.value)}
+            placeholder="Default"
+            className={cn(
+              "bg-slate-700 border-slate-600 text-white placeholder:text-slate-400",
+              errors[spec.key] && "border-red-500"
+            )}
+          />
+          <p className={cn("text-xs", errors[spec.key] ? "text-red-400" : "text-slate-500")}>
+            {errors[spec.key] || spec.description}
+          </p>
+        </div>
+      ))}
+
+      {isSettingSupported(provider, 'stop') && (
+        <div className="space-y-2">
+          <Label htmlFor={`${idPrefix}-stop`} className="text-slate-300">Stop sequences</Label>
+          <Textarea
+            id={`${idPrefix}-stop`}
+            value={draft.stop}
+            onChange={(e) => onChange({ ...draft, stop: e.target.value })}
+            placeholder="One per line"
+            rows={3}
+            className={cn(
+              "bg-slate-700 border-slate-600 text-white placeholder:text-slate-400 font-mono",
+              errors.stop && "border-red-500"
+            )}
+          />
+          <p className={cn("text-xs", errors.stop ? "text-red-400" : "text-slate-500")}>
+            {errors.stop || (maxStopSequences
+              ? `Generation stops at any of these, up to ${maxStopSequences}`
+              : 'Generation stops at any of these')}
+          </p>
+        </div>
+      )}
+
+      {hasUnsupportedSettings(provider) && (
+        <p className="text-xs text-slate-500">
+          Some parameters are not supported by {provider} and are hidden. Their values are kept for other providers.
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,73 @@
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuLabel,
+  DropdownMenuRadioGroup,
+  DropdownMenuRadioItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { KeyRound } from "lucide-react";
+import type { ApiKey } from "@/lib/api";
+import { getDefaultKey, getFailoverOrder } from "@/lib/key-selection";
+
+const DEFAULT_VALUE = '__default__';
+
+interface KeyPickerProps {
+  apiKeys: ApiKey[];
+  provider: string;
+  /** Key pinned to the conversation; null follows the provider's default. */
+  pinnedKeyId: string | null;
+  onChange: (keyId: string | null) => void;
+  disabled?: boolean;
+}
+
+export function KeyPicker({ apiKeys, provider, pinnedKeyId, onChange, disabled }: KeyPickerProps) {
+  const providerKeys = getFailoverOrder(apiKeys, provider);
+  const defaultKey = getDefaultKey(apiKeys, provider);
+  const pinned = providerKeys.find(key => key.id === pinnedKeyId);
+
+  return (
+    <DropdownMenu>
+      <DropdownMenuTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          title={pinned ? `Using ${pinned.key_name} for this conversation` : 'API key for this conversation'}
+          className="relative bg-slate-800/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white px-3"
+        >
+          <KeyRound className="w-4 h-4" />
+          {pinned && <span className="absolute -top-1 -right-1 w-2.5 h-2.5 rounded-full bg-blue-500" />}
+        </Button>
+      </DropdownMenuTrigger>
+      <DropdownMenuContent align="end" className="bg-slate-800 border-slate-700 text-slate-200">
+        <DropdownMenuLabel className="text-xs font-medium text-slate-400">Key for this conversation</DropdownMenuLabel>
+        <DropdownMenuSeparator className="bg-slate-700" />
+        <DropdownMenuRadioGroup
+          value={pinned ? pinned.id : DEFAULT_VALUE}
+          onValueChange={(value) => onChange(value === DEFAULT_VALUE ? null : value)}
+        >
+          <DropdownMenuRadioItem value={DEFAULT_VALUE} className="focus:bg-slate-700 focus:text-white cursor-pointer">
+            Provider default{defaultKey && ` (${defaultKey.key_name})`}
+          </DropdownMenuRadioItem>
+          {providerKeys.map(key => (
+            <DropdownMenuRadioItem
+              key={key.id}
+              value={key.id}
+              disabled={!key.is_active}
+              className="focus:bg-slate-700 focus:text-white cursor-pointer"
+            >
+              {key.key_name}
+              {!key.is_active && <span className="ml-2 text-xs text-slate-500">off</span>}
+            </DropdownMenuRadioItem>
+          ))}
+        </DropdownMenuRadioGroup>
+        <DropdownMenuSeparator className="bg-slate-700" />
+        <p className="px-2 py-1.5 text-xs text-slate-500 max-w-56">
+          If the key fails with an auth, quota or rate limit error, the other keys are tried in failover order.
+        </p>
+      </DropdownMenuContent>
+    </DropdownMenu>
+  );
+}
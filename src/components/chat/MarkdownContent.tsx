@@ -0,0 +1,74 @@
+import { memo, useMemo } from "react";
+import ReactMarkdown, { type Components } from "react-markdown";
+import remarkGfm from "remark-gfm";
+import remarkMath from "remark-math";
+import rehypeKatex from "rehype-katex";
+import rehypeHighlight from "rehype-highlight";
+import "katex/dist/katex.min.css";
+import "highlight.js/styles/github-dark.css";
+import { cn } from "@/lib/utils";
+import { normalizeMathDelimiters, splitMarkdownBlocks } from "@/lib/markdown";
+import { CodeBlock } from "./CodeBlock";
+
+interface MarkdownContentProps {
+  content: string;
+  isStreaming?: boolean;
+  className?: string;
+}
+
+// Raw HTML is never enabled (no rehype-raw), so model output cannot inject
+// markup, and react-markdown's default urlTransform drops javascript: links.
+const remarkPlugins = [remarkGfm, remarkMath];
+const rehypePlugins = [
+  [rehypeKatex, { throwOnError: false, strict: 'ignore' }],
+  [rehypeHighlight, { detect: false, ignoreMissing: true }],
+] as Parameters<typeof ReactMarkdown>[0]['rehypePlugins'];
+
+const components: Components = {
+  pre: ({ node, ...props }) => <CodeBlock {...props} />,
+  a: ({ node, ...props }) => (
+    <a {...props} target="_blank" rel="noopener noreferrer nofollow" />
+  ),
+  table: ({ node, ...props }) => (
+    <div className="overflow-x-auto">
+      <table {...props} />
+    </div>
+  ),
+};
+
+const MarkdownBlock = memo(function MarkdownBlock({ content }: { content: string }) {
+  return (
+    <ReactMarkdown
+      remarkPlugins={remarkPlugins}
+      rehypePlugins={rehypePlugins}
+      components={components}
+    >
+      {normalizeMathDelimiters(content)}
+    </ReactMarkdown>
+  );
+});
+
+export function MarkdownContent({ content, isStreaming, className }: MarkdownContentProps) {
+  // While streaming, render block by block so that only the block still
+  // receiving tokens is re-parsed. Once complete, parse the whole message so
+  // constructs spanning blocks (loose lists, reference links) render correctly.
+  const blocks = useMemo(
+    () => (isStreaming ? splitMarkdownBlocks(content) : [content]),
+    [content, isStreaming]
+  );
+
+  return (
+    <div
+      className={cn(
+        "prose prose-invert prose-sm max-w-none break-words",
+        "prose-p:leading-relaxed prose-pre:my-0 prose-code:before:content-none prose-code:after:content-none",
+        "prose-code:rounded prose-code:bg-slate-700/50 prose-code:px-1 prose-code:py-0.5 prose-code:font-normal",
+        className
+      )}
+    >
+      {blocks.map((block, index) => (
+        <MarkdownBlock key={index} content={block} />
+      ))}
+    </div>
+  );
+}
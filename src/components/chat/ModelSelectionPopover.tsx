@@ -9,11 +9,7 @@ import {
 } from "@/components/ui/popover";
 import { Shuffle } from "lucide-react";
 import { cn } from "@/lib/utils";
-
-interface Provider {
-  id: string;
-  name: string;
-}
+import { getProvidersAndModels, type Provider } from "@/lib/api";
 
 interface ModelSelectionPopoverProps {
   currentProvider: string;
@@ -23,8 +19,6 @@ interface ModelSelectionPopoverProps {
   disabled?: boolean;
 }
 
-const API_BASE_URL = "http://localhost:8000";
-
 export function ModelSelectionPopover({
   currentProvider,
   currentModel,
@@ -51,12 +45,9 @@ export function ModelSelectionPopover({
   const loadProvidersAndModels = async () => {
     setLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/providers-and-models`);
-      if (response.ok) {
-        const data = await response.json();
-        setProviders(data.providers);
-        setModelsByProvider(data.models_by_provider);
-      }
+      const data = await getProvidersAndModels();
+      setProviders(data.providers);
+      setModelsByProvider(data.models_by_provider);
     } catch (error) {
       console.error('Failed to load providers and models:', error);
     } finally {
@@ -0,0 +1,87 @@
+import { useState, useEffect, useMemo, type RefObject } from "react";
+import { BookText } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { PromptTemplate } from "@/lib/api";
+import { extractVariables, filterTemplates } from "@/lib/prompt-templates";
+
+interface PromptPickerProps {
+  /** Text typed after the leading `/`. */
+  query: string;
+  templates: PromptTemplate[];
+  /** The composer the query is typed in; keys pressed anywhere else are left alone. */
+  composerRef: RefObject<HTMLTextAreaElement>;
+  onSelect: (template: PromptTemplate) => void;
+  onDismiss: () => void;
+}
+
+export function PromptPicker({ query, templates, composerRef, onSelect, onDismiss }: PromptPickerProps) {
+  const [activeIndex, setActiveIndex] = useState(0);
+  const matches = useMemo(() => filterTemplates(templates, query), [templates, query]);
+
+  useEffect(() => {
+    setActiveIndex(0);
+  }, [query]);
+
+  // Focus stays in the composer, so navigation keys are taken before it sees them
+  useEffect(() => {
+    if (matches.length === 0) return;
+
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.isComposing || e.target !== composerRef.current) return;
+      if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+        const step = e.key === 'ArrowDown' ? 1 : -1;
+        setActiveIndex(prev => (prev + step + matches.length) % matches.length);
+      } else if (e.key === 'Enter' || e.key === 'Tab') {
+        onSelect(matches[Math.min(activeIndex, matches.length - 1)]);
+      } else if (e.key === 'Escape') {
+        onDismiss();
+      } else {
+        return;
+      }
+      e.preventDefault();
+      e.stopPropagation();
+    };
+
+    document.addEventListener('keydown', handleKeyDown, true);
+    return () => document.removeEventListener('keydown', handleKeyDown, true);
+  }, [matches, activeIndex, composerRef, onSelect, onDismiss]);
+
+  if (matches.length === 0) return null;
+
+  return (
+    <div className="absolute bottom-full left-0 right-0 mb-2 z-20 rounded-lg border border-slate-700 bg-slate-800 shadow-lg overflow-hidden">
+      <div className="px-3 py-2 text-xs text-slate-400 border-b border-slate-700/50">
+        Prompts · ↑↓ to choose, Enter to insert, Esc to close
+      </div>
+      <div className="max-h-64 overflow-y-auto py-1">
+        {matches.map((template, index) => {
+          const variableCount = extractVariables(template.content).length;
+          return (
+            <button
+              key={template.id}
+              // Keep focus in the composer
+              onMouseDown={(e) => e.preventDefault()}
+              onMouseEnter={() => setActiveIndex(index)}
+              onClick={() => onSelect(template)}
+              className={cn(
+                "w-full flex items-center gap-2 px-3 py-2 text-left text-sm",
+                index === activeIndex ? "bg-slate-700 text-white" : "text-slate-300"
+              )}
+            >
+              <BookText className="w-4 h-4 text-slate-400 flex-shrink-0" />
+              <span className="truncate flex-1">{template.name}</span>
+              {variableCount > 0 && (
+                <span className="text-xs text-slate-500">
+                  {variableCount} variable{variableCount !== 1 ? 's' : ''}
+                </span>
+              )}
+              {template.folder && (
+                <span className="text-xs text-slate-500 truncate max-w-[8rem]">{template.folder}</span>
+              )}
+            </button>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,90 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import type { PromptTemplate } from "@/lib/api";
+import { extractVariables, fillTemplate } from "@/lib/prompt-templates";
+
+interface PromptVariablesDialogProps {
+  /** Template being filled in; the dialog is open while this is set. */
+  template: PromptTemplate | null;
+  onSubmit: (content: string) => void;
+  onCancel: () => void;
+}
+
+export function PromptVariablesDialog({ template, onSubmit, onCancel }: PromptVariablesDialogProps) {
+  const [values, setValues] = useState<Record<string, string>>({});
+
+  useEffect(() => {
+    setValues({});
+  }, [template]);
+
+  if (!template) return null;
+
+  const variables = extractVariables(template.content);
+  const isComplete = variables.every(name => values[name]?.trim());
+
+  const handleSubmit = (e?: React.SyntheticEvent) => {
+    e?.preventDefault();
+    if (!isComplete) return;
+    onSubmit(fillTemplate(template.content, values));
+  };
+
+  return (
+    <Dialog open onOpenChange={(open) => !open && onCancel()}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white max-w-lg">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle>{template.name}</DialogTitle>
+            <DialogDescription className="text-slate-400">
+              Fill in the blanks to insert this prompt. Ctrl+Enter inserts.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4 max-h-[60vh] overflow-y-auto">
+            {variables.map((name, index) => (
+              <div key={name} className="space-y-1">
+                <Label htmlFor={`prompt-variable-${index}`} className="text-slate-300 font-mono text-xs">
+                  {name}
+                </Label>
+                <Textarea
+                  id={`prompt-variable-${index}`}
+                  autoFocus={index === 0}
+                  rows={2}
+                  value={values[name] ?? ''}
+                  onChange={(e) => setValues(prev => ({ ...prev, [name]: e.target.value }))}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && (e.ctrlKey || e.metaKey)) handleSubmit(e);
+                  }}
+                  className="bg-slate-700 border-slate-600 text-white"
+                />
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter className="gap-2">
+            <Button
+              type="button"
+              variant="outline"
+              onClick={onCancel}
+              className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700"
+            >
+              Cancel
+            </Button>
+            <Button type="submit" disabled={!isComplete} className="bg-blue-600 hover:bg-blue-700 text-white">
+              Insert prompt
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,143 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Sheet,
+  SheetContent,
+  SheetDescription,
+  SheetFooter,
+  SheetHeader,
+  SheetTitle,
+  SheetTrigger,
+} from "@/components/ui/sheet";
+import { SlidersHorizontal } from "lucide-react";
+import type { GenerationSettings } from "@/lib/api";
+import {
+  countCustomSettings,
+  fromSettingsDraft,
+  toSettingsDraft,
+  validateSettings,
+  type SettingsDraft,
+} from "@/lib/generation-settings";
+import { loadFallbackChain } from "@/lib/fallback-chain";
+import { GenerationSettingsFields } from "./GenerationSettingsFields";
+
+interface ThreadSettingsSheetProps {
+  settings: GenerationSettings;
+  /** The conversation opted out of the fallback chain. */
+  fallbacksDisabled: boolean;
+  provider: string;
+  onSave: (settings: GenerationSettings, fallbacksDisabled: boolean) => Promise<boolean>;
+  disabled?: boolean;
+}
+
+export function ThreadSettingsSheet({ settings, fallbacksDisabled, provider, onSave, disabled }: ThreadSettingsSheetProps) {
+  const [open, setOpen] = useState(false);
+  const [draft, setDraft] = useState<SettingsDraft>(() => toSettingsDraft(settings));
+  const [useFallbacks, setUseFallbacks] = useState(!fallbacksDisabled);
+  const [saving, setSaving] = useState(false);
+
+  const draftSettings = fromSettingsDraft(draft);
+  const errors = validateSettings(draftSettings, provider);
+  const hasErrors = Object.keys(errors).length > 0;
+  const customCount = countCustomSettings(settings) + (fallbacksDisabled ? 1 : 0);
+  const fallbackChain = open ? loadFallbackChain() : [];
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (nextOpen) {
+      setDraft(toSettingsDraft(settings));
+      setUseFallbacks(!fallbacksDisabled);
+    }
+    setOpen(nextOpen);
+  };
+
+  const handleSave = async () => {
+    if (hasErrors) return;
+    setSaving(true);
+    try {
+      if (await onSave(draftSettings, !useFallbacks)) {
+        setOpen(false);
+      }
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleReset = () => {
+    setDraft(toSettingsDraft({}));
+    setUseFallbacks(true);
+  };
+
+  return (
+    <Sheet open={open} onOpenChange={handleOpenChange}>
+      <SheetTrigger asChild>
+        <Button
+          variant="outline"
+          disabled={disabled}
+          title="Conversation settings"
+          className="relative bg-slate-800/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white px-3"
+        >
+          <SlidersHorizontal className="w-4 h-4" />
+          {customCount > 0 && (
+            <span className="absolute -top-1.5 -right-1.5 min-w-4 h-4 px-1 rounded-full bg-blue-600 text-[10px] leading-4 text-white">
+              {customCount}
+            </span>
+          )}
+        </Button>
+      </SheetTrigger>
+      <SheetContent className="bg-slate-800 border-slate-700 text-white overflow-y-auto sm:max-w-md">
+        <SheetHeader>
+          <SheetTitle className="text-white">Conversation settings</SheetTitle>
+          <SheetDescription className="text-slate-400">
+            Applied to every message in this conversation. Leave a field empty to use the provider default.
+          </SheetDescription>
+        </SheetHeader>
+
+        <div className="py-6">
+          <GenerationSettingsFields
+            draft={draft}
+            onChange={setDraft}
+            provider={provider}
+            errors={errors}
+            idPrefix="thread-settings"
+          />
+
+          <div className="mt-6 pt-6 border-t border-slate-700 flex items-start justify-between gap-4">
+            <div>
+              <Label htmlFor="thread-settings-fallbacks" className="text-slate-300">Use fallback models</Label>
+              <p className="text-xs text-slate-400 mt-1">
+                {fallbackChain.length > 0
+                  ? `When the model is rate limited, times out or errors, try ${fallbackChain.map(target => target.model).join(' → ')}.`
+                  : 'No fallback chain is set up. Add one on the API keys page.'}
+              </p>
+            </div>
+            <Switch
+              id="thread-settings-fallbacks"
+              checked={useFallbacks}
+              onCheckedChange={setUseFallbacks}
+              className="data-[state=unchecked]:bg-slate-600"
+            />
+          </div>
+        </div>
+
+        <SheetFooter className="gap-2">
+          <Button
+            variant="outline"
+            onClick={handleReset}
+            className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            Reset to defaults
+          </Button>
+          <Button
+            onClick={handleSave}
+            disabled={hasErrors || saving}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {saving ? 'Saving...' : 'Save'}
+          </Button>
+        </SheetFooter>
+      </SheetContent>
+    </Sheet>
+  );
+}
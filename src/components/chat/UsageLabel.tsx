@@ -0,0 +1,27 @@
+import { Coins } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { formatCost, formatTokenCount, type UsageSummary } from "@/lib/token-usage";
+
+interface UsageLabelProps {
+  usage: UsageSummary;
+  className?: string;
+}
+
+export function UsageLabel({ usage, className }: UsageLabelProps) {
+  // Estimated counts are marked with "~"; the tooltip gives exact figures
+  const approx = usage.estimated ? '~' : '';
+  const details = [
+    `${usage.inputTokens.toLocaleString()} input tokens`,
+    `${usage.outputTokens.toLocaleString()} output tokens`,
+    usage.cost !== undefined ? `Cost about ${formatCost(usage.cost)}` : 'No price known for this model',
+    usage.estimated ? 'Estimated where the provider did not report usage' : null,
+  ].filter(Boolean).join('\n');
+
+  return (
+    <span title={details} className={cn("inline-flex items-center gap-1 tabular-nums", className)}>
+      <Coins className="w-3 h-3" />
+      {approx}{formatTokenCount(usage.inputTokens)} in · {approx}{formatTokenCount(usage.outputTokens)} out
+      {usage.cost !== undefined && ` · ${formatCost(usage.cost)}`}
+    </span>
+  );
+}
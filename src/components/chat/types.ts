@@ -0,0 +1,37 @@
+import type { FallbackOrigin, MessageAttachment, MessageContentPart, TokenUsage } from "@/lib/api";
+
+export interface DisplayAttachment extends MessageAttachment {
+  /** Image thumbnail; only available for attachments added in this session. */
+  previewUrl?: string;
+  status?: 'processing' | 'ready' | 'error';
+  error?: string;
+}
+
+export interface Message {
+  id: string;
+  /** Message this one follows; siblings sharing a parent are alternative branches. */
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  timestamp: Date;
+  isStreaming?: boolean;
+  /** Generation was cancelled by the user; `content` holds what had streamed so far. */
+  isStopped?: boolean;
+  model?: string;
+  provider?: string;
+  usage?: TokenUsage;
+  /** Key that served an assistant answer. */
+  apiKeyId?: string;
+  /** Earlier keys in the failover order failed before `apiKeyId` answered. */
+  failedOver?: boolean;
+  /** The model asked for failed and this answer came from the fallback chain. */
+  fallbackFrom?: FallbackOrigin;
+  attachments?: DisplayAttachment[];
+  /** Attachment content sent with `content`, kept so the prompt can be answered or edited again. */
+  contentParts?: MessageContentPart[];
+}
+
+export interface ModelTarget {
+  provider: string;
+  model: string;
+}
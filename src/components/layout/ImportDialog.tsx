@@ -0,0 +1,241 @@
+import { useState, useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { FileJson } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import type { Thread } from "@/lib/api";
+import {
+  findDuplicates,
+  IMPORT_APP_LABELS,
+  importConversation,
+  importKey,
+  parseConversationsExport,
+  type ImportedConversation,
+} from "@/lib/conversation-import";
+
+interface ImportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** Existing threads, checked for conversations imported before. */
+  threads: Thread[];
+  onImported: (threads: Thread[]) => void;
+}
+
+export function ImportDialog({ open, onOpenChange, threads, onImported }: ImportDialogProps) {
+  const [conversations, setConversations] = useState<ImportedConversation[] | null>(null);
+  const [duplicates, setDuplicates] = useState<Set<string>>(new Set());
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [parseError, setParseError] = useState<string | null>(null);
+  // Number of conversations handled so far while importing
+  const [progress, setProgress] = useState<number | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  useEffect(() => {
+    if (!open) return;
+    setConversations(null);
+    setSelected(new Set());
+    setParseError(null);
+    setProgress(null);
+  }, [open]);
+
+  const handleFile = async (file: File) => {
+    setParseError(null);
+    try {
+      const parsed = parseConversationsExport(await file.text());
+      if (parsed.length === 0) {
+        setParseError('No conversations with messages were found in this file');
+        return;
+      }
+      const alreadyImported = findDuplicates(parsed, threads);
+      setConversations(parsed);
+      setDuplicates(alreadyImported);
+      // Conversations imported before start unticked so they are not copied twice
+      setSelected(new Set(parsed.map(conversation => importKey(conversation.source)).filter(key => !alreadyImported.has(key))));
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      setParseError(error instanceof Error ? error.message : 'Failed to read the file');
+    }
+  };
+
+  const toggle = (key: string, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) {
+        next.add(key);
+      } else {
+        next.delete(key);
+      }
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked && conversations ? new Set(conversations.map(conversation => importKey(conversation.source))) : new Set());
+  };
+
+  const handleImport = async () => {
+    if (!conversations) return;
+
+    const toImport = conversations.filter(conversation => selected.has(importKey(conversation.source)));
+    const created: Thread[] = [];
+    const importedKeys: string[] = [];
+    let failed = 0;
+    setProgress(0);
+    // One at a time, so a large archive does not flood the server
+    for (const conversation of toImport) {
+      try {
+        created.push(await importConversation(conversation));
+        importedKeys.push(importKey(conversation.source));
+      } catch (error) {
+        console.error('Error importing conversation:', conversation.title, error);
+        failed++;
+      }
+      setProgress(created.length + failed);
+    }
+
+    if (created.length > 0) onImported(created);
+    toast({
+      title: failed > 0 ? "Import finished with errors" : "Import complete",
+      description: failed > 0
+        ? `Imported ${created.length} of ${toImport.length} conversations; ${failed} could not be saved`
+        : `Imported ${created.length} conversation${created.length === 1 ? '' : 's'}`,
+      variant: failed > 0 ? "destructive" : "default",
+    });
+    setProgress(null);
+    if (failed === 0) {
+      onOpenChange(false);
+      return;
+    }
+    // Leave only the failures selected so importing again retries just those
+    setDuplicates(prev => new Set([...prev, ...importedKeys]));
+    setSelected(prev => new Set([...prev].filter(key => !importedKeys.includes(key))));
+  };
+
+  const importing = progress !== null;
+  const allSelected = !!conversations && selected.size === conversations.length;
+  const selectedCount = conversations?.filter(conversation => selected.has(importKey(conversation.source))).length ?? 0;
+
+  return (
+    <Dialog open={open} onOpenChange={(nextOpen) => !importing && onOpenChange(nextOpen)}>
+      <DialogContent className="bg-slate-800 border-slate-700 text-white max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Import conversations</DialogTitle>
+          <DialogDescription className="text-slate-400">
+            Bring in your history from a ChatGPT or Claude data export. Unzip the export and choose its conversations.json.
+          </DialogDescription>
+        </DialogHeader>
+
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            const file = e.target.files?.[0];
+            if (file) handleFile(file);
+            e.target.value = '';
+          }}
+        />
+
+        {conversations ? (
+          <div className="space-y-2">
+            <div className="flex items-center justify-between text-sm">
+              <label className="flex items-center gap-2 text-slate-300 cursor-pointer">
+                <Checkbox
+                  checked={allSelected}
+                  onCheckedChange={(checked) => toggleAll(checked === true)}
+                  disabled={importing}
+                  className="border-slate-500"
+                />
+                Select all
+              </label>
+              <span className="text-xs text-slate-400">
+                {selectedCount} of {conversations.length} selected
+                {duplicates.size > 0 && ` · ${duplicates.size} already imported`}
+              </span>
+            </div>
+            <ScrollArea className="h-72 rounded-lg border border-slate-700">
+              <div className="divide-y divide-slate-700/50">
+                {conversations.map(conversation => {
+                  const key = importKey(conversation.source);
+                  return (
+                    <label key={key} className="flex items-start gap-3 p-3 hover:bg-slate-700/30 cursor-pointer">
+                      <Checkbox
+                        checked={selected.has(key)}
+                        onCheckedChange={(checked) => toggle(key, checked === true)}
+                        disabled={importing}
+                        className="mt-0.5 border-slate-500"
+                      />
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm text-white truncate">{conversation.title}</p>
+                        <p className="text-xs text-slate-400">
+                          {IMPORT_APP_LABELS[conversation.source.app]} · {new Date(conversation.created_at).toLocaleDateString()} · {conversation.messages.length} messages
+                        </p>
+                      </div>
+                      {duplicates.has(key) && (
+                        <Badge variant="secondary" className="text-xs bg-amber-500/20 text-amber-300 flex-shrink-0">
+                          Already imported
+                        </Badge>
+                      )}
+                    </label>
+                  );
+                })}
+              </div>
+            </ScrollArea>
+          </div>
+        ) : (
+          <button
+            type="button"
+            onClick={() => fileInputRef.current?.click()}
+            className="w-full rounded-lg border-2 border-dashed border-slate-600 p-8 text-center hover:border-blue-500 hover:bg-slate-700/30 transition-colors"
+          >
+            <FileJson className="w-8 h-8 mx-auto mb-2 text-slate-400" />
+            <p className="text-sm text-slate-300">Choose conversations.json</p>
+          </button>
+        )}
+
+        {parseError && <p className="text-sm text-red-400">{parseError}</p>}
+
+        <DialogFooter className="gap-2">
+          {conversations && !importing && (
+            <Button
+              variant="ghost"
+              onClick={() => fileInputRef.current?.click()}
+              className="mr-auto text-slate-400 hover:text-white hover:bg-slate-700/50"
+            >
+              Choose another file
+            </Button>
+          )}
+          <Button
+            variant="outline"
+            onClick={() => onOpenChange(false)}
+            disabled={importing}
+            className="bg-transparent border-slate-600 text-slate-300 hover:bg-slate-700"
+          >
+            Cancel
+          </Button>
+          <Button
+            onClick={handleImport}
+            disabled={!conversations || selectedCount === 0 || importing}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            {importing
+              ? `Importing ${progress} of ${selectedCount}...`
+              : `Import ${selectedCount} conversation${selectedCount === 1 ? '' : 's'}`}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
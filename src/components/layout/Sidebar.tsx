@@ -1,9 +1,11 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
 import { Button } from "@/components/ui/button";
 import { ScrollArea } from "@/components/ui/scroll-area";
-import { Badge } from "@/components/ui/badge";
+import { ToastAction } from "@/components/ui/toast";
 import { 
+  Archive,
+  ChevronDown,
   MessageSquare, 
   Plus, 
   Key,
@@ -11,7 +13,12 @@ import {
   LogOut,
   ChevronLeft,
   ChevronRight,
-  User
+  User,
+  Search,
+  BookText,
+  Download,
+  Upload,
+  BarChart3
 } from "lucide-react";
 import { cn } from "@/lib/utils";
 import { useToast } from "@/hooks/use-toast";
@@ -21,38 +28,47 @@ import {
   PopoverTrigger,
 } from "@/components/ui/popover";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
+import {
+  deleteThread,
+  getAuthToken,
+  getProvidersAndModels,
+  listAssistants,
+  listThreads,
+  updateThread,
+  type Assistant,
+  type Provider,
+  type Thread,
+  type ThreadUpdate,
+  type User as AuthUser,
+} from "@/lib/api";
+import { isLocalMode } from "@/lib/local/mode";
+import type { AppView } from "@/lib/routes";
+import { exportConversations, type ExportFormat } from "@/lib/conversation-export";
+import { AssistantsSection } from "@/components/assistants/AssistantsSection";
+import { ExportMenu } from "@/components/chat/ExportMenu";
+import { ImportDialog } from "./ImportDialog";
+import { ThreadListItem } from "./ThreadListItem";
+
+const UNDO_DELETE_DELAY_MS = 5000;
 
 interface SidebarProps {
-  activeView: 'chat' | 'api-keys';
-  onViewChange: (view: 'chat' | 'api-keys') => void;
+  activeView: AppView;
+  onViewChange: (view: AppView) => void;
   selectedModel: string;
   selectedProvider: string;
   onModelChange: (model: string) => void;
   onProviderChange: (provider: string) => void;
   onThreadSelect?: (threadId: string) => void;
-  onNewChat?: () => void;
+  currentThreadId?: string;
+  /** Starts a new chat, from the given assistant when there is one. */
+  onNewChat?: (assistantId?: string) => void;
   onLogout?: () => void;
-  currentUser?: any;
+  currentUser?: AuthUser | null;
   collapsed: boolean;
   onToggleCollapse: () => void;
+  onOpenSearch?: () => void;
 }
 
-interface Thread {
-  id: string;
-  title: string;
-  provider: string;
-  model_name: string;
-  created_at: string;
-  updated_at: string;
-}
-
-interface Provider {
-  id: string;
-  name: string;
-}
-
-const API_BASE_URL = "http://localhost:8000";
-
 export function Sidebar({ 
   activeView, 
   onViewChange, 
@@ -61,48 +77,93 @@ export function Sidebar({
   onModelChange,
   onProviderChange,
   onThreadSelect,
+  currentThreadId,
   onNewChat,
   onLogout,
   currentUser,
   collapsed,
-  onToggleCollapse
+  onToggleCollapse,
+  onOpenSearch
 }: SidebarProps) {
   const [threads, setThreads] = useState<Thread[]>([]);
+  const [assistants, setAssistants] = useState<Assistant[]>([]);
+  // Empty shows conversations from every assistant
+  const [assistantFilter, setAssistantFilter] = useState('');
   const [providers, setProviders] = useState<Provider[]>([]);
   const [modelsByProvider, setModelsByProvider] = useState<Record<string, string[]>>({});
   const [loading, setLoading] = useState(false);
   const [providersLoading, setProvidersLoading] = useState(true);
+  const [renamingThreadId, setRenamingThreadId] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [exporting, setExporting] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const pendingDeletesRef = useRef(new Map<string, ReturnType<typeof setTimeout>>());
+  // The thread last looked up for the effect below, so a missing one is not reloaded in a loop
+  const lookedUpThreadRef = useRef<string | null>(null);
   const { toast } = useToast();
-
-  const getAuthToken = () => localStorage.getItem('authToken');
+  // Signing out of local mode only locks the vault
+  const localMode = isLocalMode();
 
   useEffect(() => {
     loadProvidersAndModels();
+    loadAssistants();
+  }, []);
+
+  const loadThreads = useCallback(async () => {
+    if (!getAuthToken()) return;
+
+    setLoading(true);
+    try {
+      const threadsData = await listThreads();
+      // Threads still inside their undo window stay hidden until the delete goes through
+      setThreads(threadsData.filter(thread => !pendingDeletesRef.current.has(thread.id)));
+    } catch (error) {
+      console.error('Failed to load threads:', error);
+    } finally {
+      setLoading(false);
+    }
   }, []);
 
   useEffect(() => {
     if (activeView === 'chat') {
       loadThreads();
     }
-  }, [activeView]);
+  }, [activeView, loadThreads]);
+
+  // Pick up threads created from the chat view
+  useEffect(() => {
+    if (!currentThreadId || lookedUpThreadRef.current === currentThreadId) return;
+    if (threads.some(thread => thread.id === currentThreadId)) return;
+    lookedUpThreadRef.current = currentThreadId;
+    loadThreads();
+  }, [currentThreadId, threads, loadThreads]);
+
+  // Deletes still waiting out their undo window go through when the sidebar unmounts
+  useEffect(() => {
+    const pendingDeletes = pendingDeletesRef.current;
+    return () => {
+      pendingDeletes.forEach((timer, threadId) => {
+        clearTimeout(timer);
+        deleteThread(threadId).catch(error => console.error('Failed to delete thread:', error));
+      });
+      pendingDeletes.clear();
+    };
+  }, []);
 
   const loadProvidersAndModels = async () => {
     setProvidersLoading(true);
     try {
-      const response = await fetch(`${API_BASE_URL}/providers-and-models`);
-      if (response.ok) {
-        const data = await response.json();
-        setProviders(data.providers);
-        setModelsByProvider(data.models_by_provider);
-        
-        // Set default provider and model if none selected
-        if (!selectedProvider && data.providers.length > 0) {
-          const firstProvider = data.providers[0].id;
-          onProviderChange(firstProvider);
-          const firstModel = data.models_by_provider[firstProvider]?.[0];
-          if (firstModel) {
-            onModelChange(firstModel);
-          }
+      const data = await getProvidersAndModels();
+      setProviders(data.providers);
+      setModelsByProvider(data.models_by_provider);
+
+      // Set default provider and model if none selected
+      if (!selectedProvider && data.providers.length > 0) {
+        const firstProvider = data.providers[0].id;
+        onProviderChange(firstProvider);
+        const firstModel = data.models_by_provider[firstProvider]?.[0];
+        if (firstModel) {
+          onModelChange(firstModel);
         }
       }
     } catch (error) {
@@ -117,26 +178,14 @@ export function Sidebar({
     }
   };
 
-  const loadThreads = async () => {
-    const token = getAuthToken();
-    if (!token) return;
 
-    setLoading(true);
-    try {
-      const response = await fetch(`${API_BASE_URL}/threads`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
+  const loadAssistants = async () => {
+    if (!getAuthToken()) return;
 
-      if (response.ok) {
-        const threadsData = await response.json();
-        setThreads(threadsData);
-      }
+    try {
+      setAssistants(await listAssistants());
     } catch (error) {
-      console.error('Failed to load threads:', error);
-    } finally {
-      setLoading(false);
+      console.error('Failed to load assistants:', error);
     }
   };
 
@@ -144,10 +193,121 @@ export function Sidebar({
     onNewChat?.();
   };
 
+  // Pre-select the assistant's model so the selector matches the chat it opens
+  const handleStartAssistantChat = (assistant: Assistant) => {
+    onProviderChange(assistant.provider);
+    onModelChange(assistant.model_name);
+    onNewChat?.(assistant.id);
+  };
+
+  const handleAssistantSaved = (assistant: Assistant) => {
+    setAssistants(prev => prev.some(item => item.id === assistant.id)
+      ? prev.map(item => item.id === assistant.id ? assistant : item)
+      : [...prev, assistant]);
+  };
+
+  const handleAssistantDeleted = (assistantId: string) => {
+    setAssistants(prev => prev.filter(assistant => assistant.id !== assistantId));
+    if (assistantFilter === assistantId) setAssistantFilter('');
+  };
+
   const handleThreadSelect = (threadId: string) => {
     onThreadSelect?.(threadId);
   };
 
+  const patchThread = (threadId: string, patch: Partial<Thread>) => {
+    setThreads(prev => prev.map(thread => thread.id === threadId ? { ...thread, ...patch } : thread));
+  };
+
+  // Applies the change locally first and rolls back to `previous` if the server rejects it
+  const applyThreadUpdate = async (threadId: string, update: ThreadUpdate, previous: ThreadUpdate) => {
+    patchThread(threadId, update);
+    try {
+      const updated = await updateThread(threadId, update);
+      patchThread(threadId, updated);
+    } catch (error) {
+      console.error('Failed to update thread:', error);
+      patchThread(threadId, previous);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to update conversation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleRename = (thread: Thread, title: string) => {
+    setRenamingThreadId(null);
+    applyThreadUpdate(thread.id, { title }, { title: thread.title });
+  };
+
+  const handleTogglePin = (thread: Thread) => {
+    applyThreadUpdate(thread.id, { is_pinned: !thread.is_pinned }, { is_pinned: thread.is_pinned });
+  };
+
+  const handleToggleArchive = (thread: Thread) => {
+    applyThreadUpdate(thread.id, { is_archived: !thread.is_archived }, { is_archived: thread.is_archived });
+  };
+
+  const commitDelete = async (thread: Thread) => {
+    pendingDeletesRef.current.delete(thread.id);
+    try {
+      await deleteThread(thread.id);
+    } catch (error) {
+      console.error('Failed to delete thread:', error);
+      setThreads(prev => [...prev, thread]);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete conversation",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const handleUndoDelete = (thread: Thread) => {
+    const timer = pendingDeletesRef.current.get(thread.id);
+    if (!timer) return;
+    clearTimeout(timer);
+    pendingDeletesRef.current.delete(thread.id);
+    setThreads(prev => [...prev, thread]);
+  };
+
+  // The thread disappears immediately; the request is held back so the toast can undo it
+  const handleDelete = (thread: Thread) => {
+    setThreads(prev => prev.filter(t => t.id !== thread.id));
+    if (thread.id === currentThreadId) {
+      onNewChat?.();
+    }
+
+    pendingDeletesRef.current.set(thread.id, setTimeout(() => commitDelete(thread), UNDO_DELETE_DELAY_MS));
+    toast({
+      title: "Conversation deleted",
+      description: thread.title,
+      action: (
+        <ToastAction altText="Undo delete" onClick={() => handleUndoDelete(thread)}>
+          Undo
+        </ToastAction>
+      ),
+    });
+  };
+
+  // Exports every conversation matching the assistant filter, archived ones included
+  const handleBulkExport = async (format: ExportFormat) => {
+    setExporting(true);
+    try {
+      await exportConversations(sortedThreads.map(thread => thread.id), format);
+    } catch (error) {
+      console.error('Failed to export conversations:', error);
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export conversations",
+        variant: "destructive"
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
   const handleProviderChange = (providerId: string) => {
     onProviderChange(providerId);
     const availableModels = modelsByProvider[providerId] || [];
@@ -173,6 +333,31 @@ export function Sidebar({
 
   const currentProviderModels = modelsByProvider[selectedProvider] || [];
 
+  const sortedThreads = threads
+    .filter(thread => !assistantFilter || thread.assistant_id === assistantFilter)
+    .sort((a, b) => b.updated_at.localeCompare(a.updated_at));
+  const pinnedThreads = sortedThreads.filter(thread => thread.is_pinned && !thread.is_archived);
+  const recentThreads = sortedThreads.filter(thread => !thread.is_pinned && !thread.is_archived);
+  const archivedThreads = sortedThreads.filter(thread => thread.is_archived);
+
+  const renderThread = (thread: Thread) => (
+    <ThreadListItem
+      key={thread.id}
+      thread={thread}
+      assistant={assistants.find(assistant => assistant.id === thread.assistant_id)}
+      timeLabel={formatTimeAgo(thread.updated_at)}
+      isActive={thread.id === currentThreadId}
+      isRenaming={renamingThreadId === thread.id}
+      onSelect={() => handleThreadSelect(thread.id)}
+      onStartRename={() => setRenamingThreadId(thread.id)}
+      onCancelRename={() => setRenamingThreadId(null)}
+      onRename={(title) => handleRename(thread, title)}
+      onTogglePin={() => handleTogglePin(thread)}
+      onToggleArchive={() => handleToggleArchive(thread)}
+      onDelete={() => handleDelete(thread)}
+    />
+  );
+
   if (collapsed) {
     return (
       <aside className="bg-slate-900/50 backdrop-blur-xl border-r border-slate-700/50 flex flex-col transition-all duration-300 h-full w-16">
@@ -199,6 +384,17 @@ export function Sidebar({
           >
             <Plus className="w-4 h-4" />
           </Button>
+          {onOpenSearch && (
+            <Button
+              variant="ghost"
+              size="sm"
+              onClick={onOpenSearch}
+              title="Search (Ctrl+K)"
+              className="w-8 h-8 p-0 mt-1 text-slate-400 hover:text-white hover:bg-slate-700/50"
+            >
+              <Search className="w-3 h-3" />
+            </Button>
+          )}
         </div>
 
         {/* Navigation */}
@@ -216,6 +412,32 @@ export function Sidebar({
           >
             <MessageSquare className="w-3 h-3" />
           </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              "w-8 h-8 p-0",
+              activeView === 'prompts' 
+                ? "bg-blue-600 text-white" 
+                : "text-slate-400 hover:text-white hover:bg-slate-700/50"
+            )}
+            onClick={() => onViewChange('prompts')}
+          >
+            <BookText className="w-3 h-3" />
+          </Button>
+          <Button
+            variant="ghost"
+            size="sm"
+            className={cn(
+              "w-8 h-8 p-0",
+              activeView === 'usage' 
+                ? "bg-blue-600 text-white" 
+                : "text-slate-400 hover:text-white hover:bg-slate-700/50"
+            )}
+            onClick={() => onViewChange('usage')}
+          >
+            <BarChart3 className="w-3 h-3" />
+          </Button>
           <Button
             variant="ghost"
             size="sm"
@@ -251,7 +473,7 @@ export function Sidebar({
               <div className="space-y-3">
                 <div className="text-sm">
                   <p className="text-white font-medium">{currentUser?.email}</p>
-                  <p className="text-slate-400 text-xs">Signed in</p>
+                  <p className="text-slate-400 text-xs">{localMode ? 'Data stays in this browser' : 'Signed in'}</p>
                 </div>
                 {onLogout && (
                   <Button
@@ -261,7 +483,7 @@ export function Sidebar({
                     className="w-full justify-start text-slate-400 hover:text-white hover:bg-slate-700/50"
                   >
                     <LogOut className="w-4 h-4 mr-2" />
-                    Sign out
+                    {localMode ? 'Lock' : 'Sign out'}
                   </Button>
                 )}
               </div>
@@ -286,6 +508,17 @@ export function Sidebar({
             </div>
           </div>
           <div className="flex items-center gap-1">
+            {onOpenSearch && (
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={onOpenSearch}
+                title="Search (Ctrl+K)"
+                className="text-slate-400 hover:text-white p-2"
+              >
+                <Search className="w-4 h-4" />
+              </Button>
+            )}
             <Button
               variant="ghost"
               size="sm"
@@ -323,6 +556,34 @@ export function Sidebar({
             <MessageSquare className="w-3 h-3 mr-1" />
             Chats
           </Button>
+          <Button
+            variant={activeView === 'prompts' ? 'default' : 'ghost'}
+            size="sm"
+            className={cn(
+              "flex-1 text-xs",
+              activeView === 'prompts' 
+                ? "bg-blue-600 text-white" 
+                : "text-slate-400 hover:text-white hover:bg-slate-700/50"
+            )}
+            onClick={() => onViewChange('prompts')}
+          >
+            <BookText className="w-3 h-3 mr-1" />
+            Prompts
+          </Button>
+          <Button
+            variant={activeView === 'usage' ? 'default' : 'ghost'}
+            size="sm"
+            className={cn(
+              "flex-1 text-xs",
+              activeView === 'usage' 
+                ? "bg-blue-600 text-white" 
+                : "text-slate-400 hover:text-white hover:bg-slate-700/50"
+            )}
+            onClick={() => onViewChange('usage')}
+          >
+            <BarChart3 className="w-3 h-3 mr-1" />
+            Usage
+          </Button>
           <Button
             variant={activeView === 'api-keys' ? 'default' : 'ghost'}
             size="sm"
@@ -382,36 +643,100 @@ export function Sidebar({
             )}
           </div>
 
+          <AssistantsSection
+            assistants={assistants}
+            providers={providers}
+            modelsByProvider={modelsByProvider}
+            selectedProvider={selectedProvider}
+            selectedModel={selectedModel}
+            onStartChat={handleStartAssistantChat}
+            onSaved={handleAssistantSaved}
+            onDeleted={handleAssistantDeleted}
+          />
+
           {/* Conversations - Fixed height with scroll */}
           <div className="flex-1 flex flex-col min-h-0">
-            <div className="p-4 pb-2">
-              <h3 className="text-xs font-medium text-slate-400">Recent Conversations</h3>
+            <div className="px-4 pt-4 flex items-center gap-2">
+              {assistants.length > 0 && (
+                <select
+                  value={assistantFilter}
+                  onChange={(e) => setAssistantFilter(e.target.value)}
+                  aria-label="Filter conversations by assistant"
+                  className="flex-1 min-w-0 bg-slate-800/50 border border-slate-600 rounded-lg px-3 py-1.5 text-xs text-white focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+                >
+                  <option value="">All conversations</option>
+                  {assistants.map(assistant => (
+                    <option key={assistant.id} value={assistant.id}>
+                      {assistant.avatar ? `${assistant.avatar} ` : ''}{assistant.name}
+                    </option>
+                  ))}
+                </select>
+              )}
+              <Button
+                variant="ghost"
+                size="sm"
+                onClick={() => setImportOpen(true)}
+                title="Import from ChatGPT or Claude"
+                className="ml-auto h-8 px-2 text-slate-400 hover:text-white hover:bg-slate-700/50"
+              >
+                <Upload className="w-4 h-4" />
+              </Button>
+              {sortedThreads.length > 0 && (
+                <ExportMenu
+                  label={`Export ${sortedThreads.length} conversation${sortedThreads.length === 1 ? '' : 's'}`}
+                  onExport={handleBulkExport}
+                >
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    disabled={exporting}
+                    title="Export conversations"
+                    className="h-8 px-2 text-slate-400 hover:text-white hover:bg-slate-700/50"
+                  >
+                    <Download className="w-4 h-4" />
+                  </Button>
+                </ExportMenu>
+              )}
             </div>
-            <div className="flex-1 px-4 pb-4 min-h-0">
+            <ImportDialog
+              open={importOpen}
+              onOpenChange={setImportOpen}
+              threads={threads}
+              onImported={(imported) => setThreads(prev => [...prev, ...imported])}
+            />
+            <div className="flex-1 px-4 py-4 min-h-0">
               <ScrollArea className="h-full">
                 {loading ? (
                   <div className="text-center text-slate-400 py-4">Loading...</div>
                 ) : (
                   <div className="space-y-2 pr-2">
-                    {threads.map((thread) => (
-                      <div
-                        key={thread.id}
-                        className="p-3 rounded-lg bg-slate-800/30 hover:bg-slate-700/30 transition-colors cursor-pointer group"
-                        onClick={() => handleThreadSelect(thread.id)}
-                      >
-                        <div className="flex items-start justify-between mb-1">
-                          <h4 className="text-sm font-medium text-white truncate flex-1">
-                            {thread.title}
-                          </h4>
-                        </div>
-                        <div className="flex items-center justify-between">
-                          <span className="text-xs text-slate-400">{formatTimeAgo(thread.updated_at)}</span>
-                          <Badge variant="secondary" className="text-xs bg-slate-700/50 text-slate-300">
-                            {thread.model_name}
-                          </Badge>
-                        </div>
-                      </div>
-                    ))}
+                    {pinnedThreads.length > 0 && (
+                      <>
+                        <h3 className="text-xs font-medium text-slate-400 pb-1">Pinned</h3>
+                        {pinnedThreads.map(renderThread)}
+                      </>
+                    )}
+                    {recentThreads.length > 0 && (
+                      <h3 className={cn("text-xs font-medium text-slate-400 pb-1", pinnedThreads.length > 0 && "pt-3")}>
+                        Recent Conversations
+                      </h3>
+                    )}
+                    {recentThreads.map(renderThread)}
+                    {archivedThreads.length > 0 && (
+                      <>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => setShowArchived(!showArchived)}
+                          className="w-full justify-start px-0 mt-2 text-xs text-slate-400 hover:text-white hover:bg-transparent"
+                        >
+                          <Archive className="w-3 h-3 mr-2" />
+                          Archived ({archivedThreads.length})
+                          <ChevronDown className={cn("w-3 h-3 ml-auto transition-transform", showArchived && "rotate-180")} />
+                        </Button>
+                        {showArchived && archivedThreads.map(renderThread)}
+                      </>
+                    )}
                     {threads.length === 0 && !loading && (
                       <div className="text-center text-slate-500 py-8">
                         <MessageSquare className="w-8 h-8 mx-auto mb-2 opacity-50" />
@@ -419,6 +744,11 @@ export function Sidebar({
                         <p className="text-xs">Start a new chat to begin</p>
                       </div>
                     )}
+                    {threads.length > 0 && sortedThreads.length === 0 && (
+                      <p className="text-center text-sm text-slate-500 py-8">
+                        No conversations with this assistant yet
+                      </p>
+                    )}
                   </div>
                 )}
               </ScrollArea>
@@ -437,13 +767,14 @@ export function Sidebar({
           </Avatar>
           <div className="flex-1 min-w-0">
             <p className="text-sm font-medium text-white truncate">{currentUser?.email}</p>
-            <p className="text-xs text-slate-400">Signed in</p>
+            <p className="text-xs text-slate-400">{localMode ? 'Data stays in this browser' : 'Signed in'}</p>
           </div>
           {onLogout && (
             <Button
               variant="ghost"
               size="sm"
               onClick={onLogout}
+              title={localMode ? 'Lock' : 'Sign out'}
               className="text-slate-400 hover:text-white p-2"
             >
               <LogOut className="w-4 h-4" />
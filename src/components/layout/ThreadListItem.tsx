@@ -0,0 +1,203 @@
+import { Fragment, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import {
+  ContextMenu,
+  ContextMenuContent,
+  ContextMenuItem,
+  ContextMenuSeparator,
+  ContextMenuTrigger,
+} from "@/components/ui/context-menu";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Archive, ArchiveRestore, MoreHorizontal, Pencil, Pin, PinOff, Trash2 } from "lucide-react";
+import { cn } from "@/lib/utils";
+import type { Assistant, Thread } from "@/lib/api";
+import { AssistantAvatar } from "@/components/assistants/AssistantAvatar";
+
+interface ThreadListItemProps {
+  thread: Thread;
+  /** Assistant the thread was started from, shown next to the title. */
+  assistant?: Assistant;
+  timeLabel: string;
+  isActive?: boolean;
+  isRenaming?: boolean;
+  onSelect: () => void;
+  onStartRename: () => void;
+  onCancelRename: () => void;
+  onRename: (title: string) => void;
+  onTogglePin: () => void;
+  onToggleArchive: () => void;
+  onDelete: () => void;
+}
+
+interface ThreadAction {
+  label: string;
+  icon: typeof Pencil;
+  onSelect: () => void;
+  destructive?: boolean;
+}
+
+const menuContentClass = "bg-slate-800 border-slate-700 text-slate-200";
+const menuItemClass = "focus:bg-slate-700 focus:text-white cursor-pointer";
+const destructiveItemClass = "text-red-400 focus:bg-red-500/20 focus:text-red-300";
+
+export function ThreadListItem({
+  thread,
+  assistant,
+  timeLabel,
+  isActive,
+  isRenaming,
+  onSelect,
+  onStartRename,
+  onCancelRename,
+  onRename,
+  onTogglePin,
+  onToggleArchive,
+  onDelete
+}: ThreadListItemProps) {
+  const [draftTitle, setDraftTitle] = useState(thread.title);
+  // Enter and the blur that follows it would otherwise both commit
+  const renameCommittedRef = useRef(false);
+
+  const actions: ThreadAction[] = [
+    {
+      label: 'Rename',
+      icon: Pencil,
+      onSelect: () => {
+        setDraftTitle(thread.title);
+        renameCommittedRef.current = false;
+        onStartRename();
+      },
+    },
+    { label: thread.is_pinned ? 'Unpin' : 'Pin', icon: thread.is_pinned ? PinOff : Pin, onSelect: onTogglePin },
+    {
+      label: thread.is_archived ? 'Unarchive' : 'Archive',
+      icon: thread.is_archived ? ArchiveRestore : Archive,
+      onSelect: onToggleArchive,
+    },
+    { label: 'Delete', icon: Trash2, onSelect: onDelete, destructive: true },
+  ];
+
+  const commitRename = () => {
+    if (renameCommittedRef.current) return;
+    renameCommittedRef.current = true;
+    const title = draftTitle.trim();
+    if (title && title !== thread.title) {
+      onRename(title);
+    } else {
+      onCancelRename();
+    }
+  };
+
+  const handleRenameKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter') {
+      e.preventDefault();
+      commitRename();
+    } else if (e.key === 'Escape') {
+      renameCommittedRef.current = true;
+      onCancelRename();
+    }
+  };
+
+  return (
+    <ContextMenu>
+      <ContextMenuTrigger asChild>
+        <div
+          className={cn(
+            "p-3 rounded-lg transition-colors cursor-pointer group",
+            isActive ? "bg-slate-700/50" : "bg-slate-800/30 hover:bg-slate-700/30"
+          )}
+          onClick={() => !isRenaming && onSelect()}
+        >
+          <div className="flex items-start justify-between gap-2 mb-1">
+            {isRenaming ? (
+              <Input
+                value={draftTitle}
+                onChange={(e) => setDraftTitle(e.target.value)}
+                onKeyDown={handleRenameKeyDown}
+                onBlur={commitRename}
+                onClick={(e) => e.stopPropagation()}
+                autoFocus
+                className="h-7 text-sm bg-slate-700 border-slate-600 text-white"
+              />
+            ) : (
+              <h4 className="text-sm font-medium text-white truncate flex-1 flex items-center gap-1">
+                {thread.is_pinned && <Pin className="w-3 h-3 text-slate-400 flex-shrink-0" />}
+                {assistant && (
+                  <span title={assistant.name}>
+                    <AssistantAvatar assistant={assistant} className="w-4 h-4 text-[10px] rounded" />
+                  </span>
+                )}
+                <span className="truncate">{thread.title}</span>
+              </h4>
+            )}
+            {!isRenaming && (
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={(e) => e.stopPropagation()}
+                    className="h-6 w-6 p-0 text-slate-400 hover:text-white hover:bg-slate-600/50 opacity-0 group-hover:opacity-100 data-[state=open]:opacity-100"
+                  >
+                    <MoreHorizontal className="w-4 h-4" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent
+                  align="end"
+                  className={menuContentClass}
+                  onClick={(e) => e.stopPropagation()}
+                  onCloseAutoFocus={(e) => e.preventDefault()}
+                >
+                  {actions.map((action, index) => (
+                    <Fragment key={action.label}>
+                      {action.destructive && index > 0 && <DropdownMenuSeparator className="bg-slate-700" />}
+                      <DropdownMenuItem
+                        onSelect={action.onSelect}
+                        className={cn(menuItemClass, action.destructive && destructiveItemClass)}
+                      >
+                        <action.icon className="w-4 h-4 mr-2" />
+                        {action.label}
+                      </DropdownMenuItem>
+                    </Fragment>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            )}
+          </div>
+          <div className="flex items-center justify-between">
+            <span className="text-xs text-slate-400">{timeLabel}</span>
+            <Badge variant="secondary" className="text-xs bg-slate-700/50 text-slate-300">
+              {thread.model_name}
+            </Badge>
+          </div>
+        </div>
+      </ContextMenuTrigger>
+      <ContextMenuContent
+        className={menuContentClass}
+        onClick={(e) => e.stopPropagation()}
+        onCloseAutoFocus={(e) => e.preventDefault()}
+      >
+        {actions.map((action, index) => (
+          <Fragment key={action.label}>
+            {action.destructive && index > 0 && <ContextMenuSeparator className="bg-slate-700" />}
+            <ContextMenuItem
+              onSelect={action.onSelect}
+              className={cn(menuItemClass, action.destructive && destructiveItemClass)}
+            >
+              <action.icon className="w-4 h-4 mr-2" />
+              {action.label}
+            </ContextMenuItem>
+          </Fragment>
+        ))}
+      </ContextMenuContent>
+    </ContextMenu>
+  );
+}
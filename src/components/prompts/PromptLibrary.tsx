@@ -0,0 +1,290 @@
+import { useState, useEffect, useCallback } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Card, CardContent } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { BookText, Folder, Plus, Save, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import {
+  createPromptTemplate,
+  deletePromptTemplate,
+  getAuthToken,
+  listPromptTemplates,
+  updatePromptTemplate,
+  type PromptTemplate,
+} from "@/lib/api";
+import { extractVariables, groupByFolder } from "@/lib/prompt-templates";
+
+interface PromptDraft {
+  name: string;
+  folder: string;
+  content: string;
+}
+
+const EMPTY_DRAFT: PromptDraft = { name: '', folder: '', content: '' };
+
+export function PromptLibrary() {
+  const [prompts, setPrompts] = useState<PromptTemplate[]>([]);
+  const [loading, setLoading] = useState(true);
+  // null while writing a new prompt
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [draft, setDraft] = useState<PromptDraft>(EMPTY_DRAFT);
+  const [saving, setSaving] = useState(false);
+  const { toast } = useToast();
+
+  const loadPrompts = useCallback(async () => {
+    if (!getAuthToken()) {
+      setLoading(false);
+      return;
+    }
+
+    try {
+      setPrompts(await listPromptTemplates());
+    } catch (error) {
+      console.error('Error loading prompts:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load your prompt library",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadPrompts();
+  }, [loadPrompts]);
+
+  const selectPrompt = (prompt: PromptTemplate) => {
+    setSelectedId(prompt.id);
+    setDraft({ name: prompt.name, folder: prompt.folder ?? '', content: prompt.content });
+  };
+
+  const startNewPrompt = () => {
+    setSelectedId(null);
+    setDraft(EMPTY_DRAFT);
+  };
+
+  const handleSave = async () => {
+    if (!draft.name.trim() || !draft.content.trim()) {
+      toast({
+        title: "Missing fields",
+        description: "Give the prompt a name and some content",
+        variant: "destructive"
+      });
+      return;
+    }
+
+    const payload = {
+      name: draft.name.trim(),
+      folder: draft.folder.trim() || null,
+      content: draft.content,
+    };
+
+    setSaving(true);
+    try {
+      if (selectedId) {
+        const updated = await updatePromptTemplate(selectedId, payload);
+        setPrompts(prev => prev.map(prompt => prompt.id === updated.id ? updated : prompt));
+      } else {
+        const created = await createPromptTemplate(payload);
+        setPrompts(prev => [...prev, created]);
+        setSelectedId(created.id);
+      }
+      toast({
+        title: "Prompt saved",
+        description: `Type /${payload.name} in the chat box to use it`,
+      });
+    } catch (error) {
+      console.error('Error saving prompt:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to save prompt",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleDelete = async () => {
+    if (!selectedId) return;
+
+    try {
+      await deletePromptTemplate(selectedId);
+      setPrompts(prev => prev.filter(prompt => prompt.id !== selectedId));
+      startNewPrompt();
+      toast({
+        title: "Prompt deleted",
+        description: "The prompt has been removed from your library",
+      });
+    } catch (error) {
+      console.error('Error deleting prompt:', error);
+      toast({
+        title: "Error",
+        description: error instanceof Error ? error.message : "Failed to delete prompt",
+        variant: "destructive"
+      });
+    }
+  };
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-white">Loading...</div>
+      </div>
+    );
+  }
+
+  const folders = groupByFolder(prompts);
+  const folderNames = folders.map(group => group.folder).filter(Boolean);
+  const variables = extractVariables(draft.content);
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-700/50 bg-slate-900/30 backdrop-blur-sm">
+        <div className="flex items-center justify-between">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Prompt Library</h2>
+            <p className="text-slate-400 mt-1">Save prompts you reuse and insert them with / in the chat box</p>
+          </div>
+          <Button
+            onClick={startNewPrompt}
+            className="bg-blue-600 hover:bg-blue-700 text-white"
+          >
+            <Plus className="w-4 h-4 mr-2" />
+            New Prompt
+          </Button>
+        </div>
+      </div>
+
+      <div className="flex-1 min-h-0 flex">
+        {/* Prompt list */}
+        <ScrollArea className="w-72 border-r border-slate-700/50">
+          <div className="p-4 space-y-4">
+            {folders.map(group => (
+              <div key={group.folder || '__unfiled__'}>
+                <h3 className="flex items-center gap-1 text-xs font-medium text-slate-400 mb-2">
+                  <Folder className="w-3 h-3" />
+                  {group.folder || 'Unfiled'}
+                </h3>
+                <div className="space-y-1">
+                  {group.prompts.map(prompt => (
+                    <button
+                      key={prompt.id}
+                      onClick={() => selectPrompt(prompt)}
+                      className={cn(
+                        "w-full text-left px-3 py-2 rounded-lg text-sm truncate transition-colors",
+                        prompt.id === selectedId
+                          ? "bg-slate-700/50 text-white"
+                          : "text-slate-300 hover:bg-slate-700/30"
+                      )}
+                    >
+                      {prompt.name}
+                    </button>
+                  ))}
+                </div>
+              </div>
+            ))}
+
+            {prompts.length === 0 && (
+              <div className="text-center py-8">
+                <BookText className="w-8 h-8 text-slate-500 mx-auto mb-2" />
+                <p className="text-sm text-slate-400">No saved prompts yet</p>
+              </div>
+            )}
+          </div>
+        </ScrollArea>
+
+        {/* Editor */}
+        <ScrollArea className="flex-1">
+          <div className="p-6 max-w-3xl">
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardContent className="p-6 space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                  <div>
+                    <Label htmlFor="prompt-name" className="text-slate-300">Name</Label>
+                    <Input
+                      id="prompt-name"
+                      value={draft.name}
+                      onChange={(e) => setDraft(prev => ({ ...prev, name: e.target.value }))}
+                      placeholder="e.g., Code review"
+                      className="mt-1 bg-slate-700 border-slate-600 text-white focus:ring-2 focus:ring-blue-500"
+                    />
+                  </div>
+                  <div>
+                    <Label htmlFor="prompt-folder" className="text-slate-300">Folder</Label>
+                    <Input
+                      id="prompt-folder"
+                      list="prompt-folders"
+                      value={draft.folder}
+                      onChange={(e) => setDraft(prev => ({ ...prev, folder: e.target.value }))}
+                      placeholder="Optional"
+                      className="mt-1 bg-slate-700 border-slate-600 text-white focus:ring-2 focus:ring-blue-500"
+                    />
+                    <datalist id="prompt-folders">
+                      {folderNames.map(folder => <option key={folder} value={folder} />)}
+                    </datalist>
+                  </div>
+                </div>
+
+                <div>
+                  <Label htmlFor="prompt-content" className="text-slate-300">Prompt</Label>
+                  <Textarea
+                    id="prompt-content"
+                    value={draft.content}
+                    onChange={(e) => setDraft(prev => ({ ...prev, content: e.target.value }))}
+                    placeholder={'Review this {{language}} code for bugs and readability:\n\n{{code}}'}
+                    rows={12}
+                    className="mt-1 bg-slate-700 border-slate-600 text-white font-mono text-sm focus:ring-2 focus:ring-blue-500"
+                  />
+                  <p className="text-xs text-slate-500 mt-1">
+                    Wrap placeholders in double braces, like {'{{topic}}'}, to fill them in each time the prompt is used
+                  </p>
+                </div>
+
+                {variables.length > 0 && (
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-xs text-slate-400">Variables:</span>
+                    {variables.map(name => (
+                      <Badge key={name} variant="secondary" className="bg-slate-700 text-slate-300 font-mono">
+                        {name}
+                      </Badge>
+                    ))}
+                  </div>
+                )}
+
+                <div className="flex gap-3 pt-2">
+                  <Button
+                    onClick={handleSave}
+                    disabled={saving}
+                    className="bg-blue-600 hover:bg-blue-700"
+                  >
+                    <Save className="w-4 h-4 mr-2" />
+                    {saving ? 'Saving...' : selectedId ? 'Save Changes' : 'Save Prompt'}
+                  </Button>
+                  {selectedId && (
+                    <Button
+                      variant="ghost"
+                      onClick={handleDelete}
+                      className="text-slate-400 hover:text-red-400 hover:bg-slate-700/50"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Delete
+                    </Button>
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </ScrollArea>
+      </div>
+    </div>
+  );
+}
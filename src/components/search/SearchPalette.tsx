@@ -0,0 +1,167 @@
+import { useState, useEffect } from "react";
+import {
+  Command,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+} from "@/components/ui/command";
+import { Dialog, DialogContent, DialogTitle } from "@/components/ui/dialog";
+import { Bot, MessageSquare, User } from "lucide-react";
+import { searchConversations, type SearchResult } from "@/lib/api";
+import { splitHighlights } from "@/lib/highlight";
+
+interface SearchPaletteProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onSelectResult: (threadId: string, messageId?: string) => void;
+}
+
+const SEARCH_DEBOUNCE_MS = 250;
+
+function Highlighted({ text, query }: { text: string; query: string }) {
+  return (
+    <>
+      {splitHighlights(text, query).map((segment, index) =>
+        segment.match ? (
+          <mark key={index} className="bg-yellow-400/30 text-yellow-100 rounded-sm px-0.5">
+            {segment.text}
+          </mark>
+        ) : (
+          <span key={index}>{segment.text}</span>
+        )
+      )}
+    </>
+  );
+}
+
+export function SearchPalette({ open, onOpenChange, onSelectResult }: SearchPaletteProps) {
+  const [query, setQuery] = useState('');
+  const [results, setResults] = useState<SearchResult[]>([]);
+  const [loading, setLoading] = useState(false);
+
+  // Ctrl/Cmd+K toggles the palette from anywhere
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === 'k' && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        onOpenChange(!open);
+      }
+    };
+    document.addEventListener('keydown', handleKeyDown);
+    return () => document.removeEventListener('keydown', handleKeyDown);
+  }, [open, onOpenChange]);
+
+  useEffect(() => {
+    const trimmed = query.trim();
+    if (!trimmed) {
+      setResults([]);
+      setLoading(false);
+      return;
+    }
+
+    const controller = new AbortController();
+    setLoading(true);
+    const timer = setTimeout(async () => {
+      try {
+        setResults(await searchConversations(trimmed, controller.signal));
+      } catch (error) {
+        if (!controller.signal.aborted) {
+          console.error('Search failed:', error);
+          setResults([]);
+        }
+      } finally {
+        if (!controller.signal.aborted) setLoading(false);
+      }
+    }, SEARCH_DEBOUNCE_MS);
+
+    return () => {
+      clearTimeout(timer);
+      controller.abort();
+    };
+  }, [query]);
+
+  const handleOpenChange = (nextOpen: boolean) => {
+    if (!nextOpen) setQuery('');
+    onOpenChange(nextOpen);
+  };
+
+  const handleSelect = (result: SearchResult) => {
+    handleOpenChange(false);
+    onSelectResult(result.thread_id, result.message_id ?? undefined);
+  };
+
+  const titleMatches = results.filter(result => !result.message_id);
+  const messageMatches = results.filter(result => result.message_id);
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogContent className="overflow-hidden p-0 shadow-lg bg-slate-800 border-slate-700 text-white max-w-2xl">
+        <DialogTitle className="sr-only">Search conversations</DialogTitle>
+        <Command
+          shouldFilter={false}
+          className="bg-transparent text-white [&_[cmdk-group-heading]]:px-2 [&_[cmdk-group-heading]]:font-medium [&_[cmdk-group-heading]]:text-slate-400 [&_[cmdk-input-wrapper]]:border-slate-700 [&_[cmdk-input]]:h-12 [&_[cmdk-item]]:px-2 [&_[cmdk-item]]:py-2"
+        >
+          <CommandInput
+            value={query}
+            onValueChange={setQuery}
+            placeholder="Search conversations and messages..."
+            className="text-white placeholder:text-slate-400"
+          />
+          <CommandList className="max-h-[400px]">
+            {query.trim() && !loading && (
+              <CommandEmpty className="py-6 text-center text-sm text-slate-400">No matches found.</CommandEmpty>
+            )}
+            {loading && (
+              <div className="py-6 text-center text-sm text-slate-400">Searching...</div>
+            )}
+
+            {!loading && titleMatches.length > 0 && (
+              <CommandGroup heading="Conversations">
+                {titleMatches.map(result => (
+                  <CommandItem
+                    key={`thread-${result.thread_id}`}
+                    value={`thread-${result.thread_id}`}
+                    onSelect={() => handleSelect(result)}
+                    className="gap-2 text-slate-200 aria-selected:bg-slate-700 aria-selected:text-white"
+                  >
+                    <MessageSquare className="w-4 h-4 text-slate-400 flex-shrink-0" />
+                    <span className="truncate">
+                      <Highlighted text={result.thread_title} query={query} />
+                    </span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+
+            {!loading && messageMatches.length > 0 && (
+              <CommandGroup heading="Messages">
+                {messageMatches.map(result => (
+                  <CommandItem
+                    key={`message-${result.message_id}`}
+                    value={`message-${result.message_id}`}
+                    onSelect={() => handleSelect(result)}
+                    className="items-start gap-2 text-slate-200 aria-selected:bg-slate-700 aria-selected:text-white"
+                  >
+                    {result.role === 'user' ? (
+                      <User className="w-4 h-4 mt-0.5 text-slate-400 flex-shrink-0" />
+                    ) : (
+                      <Bot className="w-4 h-4 mt-0.5 text-slate-400 flex-shrink-0" />
+                    )}
+                    <div className="min-w-0">
+                      <p className="text-xs text-slate-400 truncate">{result.thread_title}</p>
+                      <p className="text-sm line-clamp-2">
+                        <Highlighted text={result.snippet} query={query} />
+                      </p>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            )}
+          </CommandList>
+        </Command>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,392 @@
+import { useState, useEffect, useMemo, useCallback } from "react";
+import { format, parseISO, startOfDay, subDays } from "date-fns";
+import type { DateRange } from "react-day-picker";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Calendar } from "@/components/ui/calendar";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+  type ChartConfig,
+} from "@/components/ui/chart";
+import { BarChart3, CalendarDays, Download } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { cn } from "@/lib/utils";
+import { getAuthToken, getUsage, listApiKeys, type UsageRecord } from "@/lib/api";
+import { downloadFile } from "@/lib/download";
+import { formatCost, formatTokenCount } from "@/lib/token-usage";
+import {
+  dimensionLabel,
+  getDailySeries,
+  getUsageBreakdown,
+  summarizeUsage,
+  toDateKey,
+  usageToCsv,
+  type UsageDimension,
+  type UsageMetric,
+} from "@/lib/usage-stats";
+
+interface Range {
+  from: Date;
+  to: Date;
+}
+
+const RANGE_PRESETS = [7, 30, 90];
+
+const SERIES_COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#a855f7', '#ef4444', '#64748b'];
+
+const METRIC_OPTIONS: { value: UsageMetric; label: string }[] = [
+  { value: 'tokens', label: 'Tokens' },
+  { value: 'requests', label: 'Requests' },
+  { value: 'cost', label: 'Spend' },
+];
+
+const DIMENSION_OPTIONS: { value: UsageDimension; label: string }[] = [
+  { value: 'provider', label: 'Provider' },
+  { value: 'model', label: 'Model' },
+  { value: 'key', label: 'API key' },
+];
+
+const lastDays = (days: number): Range => {
+  const today = startOfDay(new Date());
+  return { from: subDays(today, days - 1), to: today };
+};
+
+function SegmentedControl<T extends string>({
+  value,
+  options,
+  onChange
+}: {
+  value: T;
+  options: { value: T; label: string }[];
+  onChange: (value: T) => void;
+}) {
+  return (
+    <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1">
+      {options.map(option => (
+        <Button
+          key={option.value}
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange(option.value)}
+          className={cn(
+            "h-7 px-3 text-xs",
+            value === option.value
+              ? "bg-blue-600 text-white hover:bg-blue-600 hover:text-white"
+              : "text-slate-400 hover:text-white hover:bg-slate-700/50"
+          )}
+        >
+          {option.label}
+        </Button>
+      ))}
+    </div>
+  );
+}
+
+export function UsageDashboard() {
+  const [range, setRange] = useState<Range>(() => lastDays(30));
+  // Days picked in the calendar before the range is complete
+  const [calendarRange, setCalendarRange] = useState<DateRange | undefined>();
+  const [calendarOpen, setCalendarOpen] = useState(false);
+  const [records, setRecords] = useState<UsageRecord[]>([]);
+  const [keyNames, setKeyNames] = useState<Record<string, string>>({});
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [metric, setMetric] = useState<UsageMetric>('tokens');
+  const [dimension, setDimension] = useState<UsageDimension>('provider');
+  const { toast } = useToast();
+
+  useEffect(() => {
+    loadKeyNames();
+  }, []);
+
+  const loadUsage = useCallback(async () => {
+    if (!getAuthToken()) {
+      setLoading(false);
+      return;
+    }
+
+    setRefreshing(true);
+    try {
+      setRecords(await getUsage(toDateKey(range.from), toDateKey(range.to)));
+    } catch (error) {
+      console.error('Error loading usage:', error);
+      toast({
+        title: "Error",
+        description: "Failed to load usage",
+        variant: "destructive"
+      });
+    } finally {
+      setLoading(false);
+      setRefreshing(false);
+    }
+  }, [range, toast]);
+
+  useEffect(() => {
+    loadUsage();
+  }, [loadUsage]);
+
+  // Only needed to label keys; usage still shows without it
+  const loadKeyNames = async () => {
+    if (!getAuthToken()) return;
+
+    try {
+      const keys = await listApiKeys();
+      setKeyNames(Object.fromEntries(keys.map(key => [key.id, key.key_name])));
+    } catch (error) {
+      console.error('Error loading API keys:', error);
+    }
+  };
+
+  const handleCalendarOpenChange = (open: boolean) => {
+    if (open) setCalendarRange(undefined);
+    setCalendarOpen(open);
+  };
+
+  const handleCalendarSelect = (selected: DateRange | undefined) => {
+    setCalendarRange(selected);
+    if (selected?.from && selected.to) {
+      setRange({ from: startOfDay(selected.from), to: startOfDay(selected.to) });
+      setCalendarOpen(false);
+    }
+  };
+
+  const handleExportCsv = () => {
+    downloadFile(
+      `usage-${toDateKey(range.from)}-to-${toDateKey(range.to)}.csv`,
+      usageToCsv(records, keyNames),
+      'text/csv;charset=utf-8'
+    );
+  };
+
+  const totals = useMemo(() => summarizeUsage(records), [records]);
+  const breakdown = useMemo(() => getUsageBreakdown(records, dimension, keyNames), [records, dimension, keyNames]);
+  const { series, rows } = useMemo(
+    () => getDailySeries(records, range, metric, dimension),
+    [records, range, metric, dimension]
+  );
+
+  // Series are keyed by position: model names are not valid CSS variable names
+  const chartConfig: ChartConfig = Object.fromEntries(series.map((key, index) => [
+    `s${index}`,
+    { label: dimensionLabel(key, dimension, keyNames), color: SERIES_COLORS[index % SERIES_COLORS.length] },
+  ]));
+  const chartRows = rows.map(row => ({
+    date: row.date,
+    ...Object.fromEntries(series.map((key, index) => [
+      `s${index}`,
+      metric === 'cost' ? Number((row[key] as number).toFixed(4)) : row[key],
+    ])),
+  }));
+
+  const formatMetric = (value: number) =>
+    metric === 'cost' ? formatCost(value) : formatTokenCount(value);
+
+  const activePreset = RANGE_PRESETS.find(days => {
+    const preset = lastDays(days);
+    return toDateKey(preset.from) === toDateKey(range.from) && toDateKey(preset.to) === toDateKey(range.to);
+  });
+
+  if (loading) {
+    return (
+      <div className="h-full flex items-center justify-center">
+        <div className="text-white">Loading...</div>
+      </div>
+    );
+  }
+
+  const summaryCards = [
+    { label: 'Requests', value: totals.requests.toLocaleString() },
+    { label: 'Input tokens', value: formatTokenCount(totals.inputTokens) },
+    { label: 'Output tokens', value: formatTokenCount(totals.outputTokens) },
+    { label: 'Estimated spend', value: formatCost(totals.cost) },
+  ];
+
+  return (
+    <div className="h-full flex flex-col">
+      {/* Header */}
+      <div className="p-6 border-b border-slate-700/50 bg-slate-900/30 backdrop-blur-sm">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <div>
+            <h2 className="text-xl font-semibold text-white">Usage</h2>
+            <p className="text-slate-400 mt-1">Tokens, requests and estimated spend across your API keys</p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <div className="flex gap-1 bg-slate-800/50 rounded-lg p-1">
+              {RANGE_PRESETS.map(days => (
+                <Button
+                  key={days}
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => setRange(lastDays(days))}
+                  className={cn(
+                    "h-7 px-3 text-xs",
+                    activePreset === days
+                      ? "bg-blue-600 text-white hover:bg-blue-600 hover:text-white"
+                      : "text-slate-400 hover:text-white hover:bg-slate-700/50"
+                  )}
+                >
+                  {days}d
+                </Button>
+              ))}
+            </div>
+            <Popover open={calendarOpen} onOpenChange={handleCalendarOpenChange}>
+              <PopoverTrigger asChild>
+                <Button
+                  variant="outline"
+                  className="bg-slate-800/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+                >
+                  <CalendarDays className="w-4 h-4 mr-2" />
+                  {format(range.from, 'MMM d, yyyy')} – {format(range.to, 'MMM d, yyyy')}
+                </Button>
+              </PopoverTrigger>
+              <PopoverContent className="w-auto p-0 bg-slate-800 border-slate-700 text-white" align="end">
+                <Calendar
+                  mode="range"
+                  numberOfMonths={2}
+                  defaultMonth={subDays(range.to, 31)}
+                  selected={calendarRange ?? range}
+                  onSelect={handleCalendarSelect}
+                  disabled={{ after: new Date() }}
+                  classNames={{
+                    day_selected: "bg-blue-600 text-white hover:bg-blue-600 hover:text-white focus:bg-blue-600 focus:text-white",
+                    day_range_middle: "aria-selected:bg-slate-700 aria-selected:text-white",
+                    day_today: "border border-slate-500",
+                  }}
+                />
+              </PopoverContent>
+            </Popover>
+            <Button
+              variant="outline"
+              onClick={handleExportCsv}
+              disabled={records.length === 0}
+              className="bg-slate-800/50 border-slate-600 text-slate-300 hover:bg-slate-700 hover:text-white"
+            >
+              <Download className="w-4 h-4 mr-2" />
+              CSV
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      <ScrollArea className="flex-1">
+        <div className={cn("p-6 space-y-6 transition-opacity", refreshing && "opacity-60")}>
+          <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+            {summaryCards.map(card => (
+              <Card key={card.label} className="bg-slate-800/30 border-slate-700">
+                <CardContent className="p-4">
+                  <p className="text-xs text-slate-400">{card.label}</p>
+                  <p className="text-2xl font-semibold text-white mt-1 tabular-nums">{card.value}</p>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+          {totals.unpricedRequests > 0 && (
+            <p className="text-xs text-slate-500 -mt-3">
+              Spend leaves out {totals.unpricedRequests.toLocaleString()} requests to models without a known price.
+            </p>
+          )}
+
+          <Card className="bg-slate-800/50 border-slate-700">
+            <CardHeader className="flex flex-row flex-wrap items-center justify-between gap-3 space-y-0">
+              <CardTitle className="text-white text-base">Daily usage</CardTitle>
+              <div className="flex flex-wrap gap-2">
+                <SegmentedControl<UsageMetric> value={metric} options={METRIC_OPTIONS} onChange={setMetric} />
+                <SegmentedControl<UsageDimension> value={dimension} options={DIMENSION_OPTIONS} onChange={setDimension} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              {records.length === 0 ? (
+                <div className="h-72 flex flex-col items-center justify-center text-slate-500">
+                  <BarChart3 className="w-8 h-8 mb-2 opacity-50" />
+                  <p className="text-sm">No usage in this period</p>
+                </div>
+              ) : (
+                <ChartContainer config={chartConfig} className="h-72 w-full aspect-auto">
+                  <BarChart data={chartRows}>
+                    <CartesianGrid vertical={false} stroke="#334155" />
+                    <XAxis
+                      dataKey="date"
+                      tickLine={false}
+                      axisLine={false}
+                      minTickGap={16}
+                      tickFormatter={(value: string) => format(parseISO(value), 'MMM d')}
+                    />
+                    <YAxis tickLine={false} axisLine={false} width={56} tickFormatter={formatMetric} />
+                    <ChartTooltip
+                      cursor={{ fill: '#334155', opacity: 0.4 }}
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(value) => format(parseISO(String(value)), 'EEE, MMM d')}
+                          className="bg-slate-800 border-slate-700 text-slate-200 [&_.text-foreground]:text-white [&_.text-muted-foreground]:text-slate-400"
+                        />
+                      }
+                    />
+                    <ChartLegend content={<ChartLegendContent className="text-slate-300" />} />
+                    {series.map((key, index) => (
+                      <Bar key={key} dataKey={`s${index}`} stackId="usage" fill={`var(--color-s${index})`} />
+                    ))}
+                  </BarChart>
+                </ChartContainer>
+              )}
+            </CardContent>
+          </Card>
+
+          {breakdown.length > 0 && (
+            <Card className="bg-slate-800/50 border-slate-700">
+              <CardHeader>
+                <CardTitle className="text-white text-base">
+                  By {DIMENSION_OPTIONS.find(option => option.value === dimension)!.label.toLowerCase()}
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                <Table>
+                  <TableHeader>
+                    <TableRow className="border-slate-700 hover:bg-transparent">
+                      <TableHead className="text-slate-400">Name</TableHead>
+                      <TableHead className="text-slate-400 text-right">Requests</TableHead>
+                      <TableHead className="text-slate-400 text-right">Input tokens</TableHead>
+                      <TableHead className="text-slate-400 text-right">Output tokens</TableHead>
+                      <TableHead className="text-slate-400 text-right">Est. spend</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {breakdown.map(row => (
+                      <TableRow key={row.key} className="border-slate-700/50 hover:bg-slate-700/20">
+                        <TableCell className="text-white">{row.label}</TableCell>
+                        <TableCell className="text-right text-slate-300 tabular-nums">{row.requests.toLocaleString()}</TableCell>
+                        <TableCell className="text-right text-slate-300 tabular-nums">{row.inputTokens.toLocaleString()}</TableCell>
+                        <TableCell className="text-right text-slate-300 tabular-nums">{row.outputTokens.toLocaleString()}</TableCell>
+                        <TableCell className="text-right text-slate-300 tabular-nums">
+                          {row.unpricedRequests === row.requests ? '—' : formatCost(row.cost)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </CardContent>
+            </Card>
+          )}
+        </div>
+      </ScrollArea>
+    </div>
+  );
+}
@@ -0,0 +1,28 @@
+import { isLocalMode } from "@/lib/local/mode";
+import { streamLocalChat } from "@/lib/local/local-chat";
+import { readChatStream, type ChatStreamEvent } from "./chat-stream";
+import { streamChat } from "./endpoints";
+import type { ChatRequest } from "./types";
+
+/**
+ * Where chat requests are answered. Components stream through whichever
+ * adapter `getChatAdapter` returns and handle the events the same way.
+ */
+export interface ChatAdapter {
+  /** Sends the request and yields its events; HTTP failures are thrown as ApiError. */
+  stream(payload: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent>;
+}
+
+/** Relays the request through the backend, which holds the keys and stores the exchange. */
+export const serverChatAdapter: ChatAdapter = {
+  async *stream(payload, signal) {
+    yield* readChatStream(await streamChat(payload, signal));
+  },
+};
+
+/** Calls the provider from the browser with a key from the local vault. */
+export const directChatAdapter: ChatAdapter = {
+  stream: streamLocalChat,
+};
+
+export const getChatAdapter = (): ChatAdapter => isLocalMode() ? directChatAdapter : serverChatAdapter;
@@ -0,0 +1,107 @@
+import { readServerSentEvents } from "@/lib/sse";
+import type { TokenUsage } from "./types";
+
+export type ChatStreamEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'usage'; usage: TokenUsage }
+  | { type: 'key'; apiKeyId: string; failedOver: boolean }
+  | { type: 'done'; threadId?: string; userMessageId?: string; assistantMessageId?: string }
+  | { type: 'error'; message: string };
+
+/** Raised when the backend reports a failure inside an otherwise successful stream. */
+export class ChatStreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ChatStreamError';
+  }
+}
+
+interface ChatStreamPayload {
+  content?: string;
+  done?: boolean;
+  thread_id?: string;
+  user_message_id?: string;
+  message_id?: string;
+  error?: string | { message?: string };
+  usage?: TokenUsage;
+  /** Key that is serving the answer, sent once it is known. */
+  api_key_id?: string;
+  failed_over?: boolean;
+}
+
+const DONE_SENTINEL = '[DONE]';
+
+function errorMessage(error: ChatStreamPayload['error']): string {
+  if (typeof error === 'string') return error;
+  return error?.message || 'The model returned an error';
+}
+
+function toChatEvents(eventType: string, payload: ChatStreamPayload): ChatStreamEvent[] {
+  if (eventType === 'error' || payload.error) {
+    return [{ type: 'error', message: errorMessage(payload.error) }];
+  }
+
+  const events: ChatStreamEvent[] = [];
+  if (payload.api_key_id) {
+    events.push({ type: 'key', apiKeyId: payload.api_key_id, failedOver: !!payload.failed_over });
+  }
+  if (payload.content) {
+    events.push({ type: 'delta', content: payload.content });
+  }
+  if (payload.usage) {
+    events.push({ type: 'usage', usage: payload.usage });
+  } else if (eventType === 'usage') {
+    events.push({ type: 'usage', usage: payload as TokenUsage });
+  }
+  if (payload.done || eventType === 'done') {
+    events.push({
+      type: 'done',
+      threadId: payload.thread_id,
+      userMessageId: payload.user_message_id,
+      assistantMessageId: payload.message_id,
+    });
+  }
+  return events;
+}
+
+function parsePayloads(data: string): ChatStreamPayload[] {
+  try {
+    return [JSON.parse(data)];
+  } catch {
+    // Some servers omit the blank line between events, which folds several
+    // `data:` lines into one event. Fall back to parsing each line on its own.
+    const payloads: ChatStreamPayload[] = [];
+    for (const line of data.split('\n')) {
+      if (!line.trim() || line.trim() === DONE_SENTINEL) continue;
+      try {
+        payloads.push(JSON.parse(line));
+      } catch {
+        console.warn('Ignoring malformed chat stream data:', line);
+      }
+    }
+    return payloads;
+  }
+}
+
+/**
+ * Decodes the `/chat` SSE response into typed events. Stream-level errors are
+ * yielded as `error` events; the caller decides whether to throw. A stream may
+ * produce more than one `done` event (e.g. a payload with `thread_id` followed
+ * by a `[DONE]` sentinel), so consumers should treat it idempotently.
+ */
+export async function* readChatStream(response: Response): AsyncGenerator<ChatStreamEvent> {
+  if (!response.body) {
+    throw new ChatStreamError('Failed to get response reader');
+  }
+
+  for await (const sse of readServerSentEvents(response.body)) {
+    if (sse.data.trim() === DONE_SENTINEL) {
+      yield { type: 'done' };
+      continue;
+    }
+
+    for (const payload of parsePayloads(sse.data)) {
+      yield* toChatEvents(sse.event, payload);
+    }
+  }
+}
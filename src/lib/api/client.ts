@@ -0,0 +1,136 @@
+import { isLocalMode } from "@/lib/local/mode";
+import { isVaultUnlocked } from "@/lib/local/vault";
+
+export const API_BASE_URL = (import.meta.env.VITE_API_BASE_URL || "http://localhost:8000").replace(/\/+$/, "");
+
+const AUTH_TOKEN_KEY = 'authToken';
+
+// Stands in for a session in local mode, where there is no server to sign in
+// to: views that wait for a token load once the vault is unlocked.
+const LOCAL_SESSION_TOKEN = 'local';
+
+export const getAuthToken = () => {
+  if (isLocalMode()) return isVaultUnlocked() ? LOCAL_SESSION_TOKEN : null;
+  return localStorage.getItem(AUTH_TOKEN_KEY);
+};
+
+export const setAuthToken = (token: string) => localStorage.setItem(AUTH_TOKEN_KEY, token);
+
+export const clearAuthToken = () => localStorage.removeItem(AUTH_TOKEN_KEY);
+
+/**
+ * Error raised for any non-2xx response. `message` is the decoded FastAPI
+ * `detail` when the backend sent one, otherwise a generic status message.
+ */
+export class ApiError extends Error {
+  status: number;
+  detail: unknown;
+
+  constructor(status: number, message: string, detail?: unknown) {
+    super(message);
+    this.name = 'ApiError';
+    this.status = status;
+    this.detail = detail;
+  }
+}
+
+type UnauthorizedListener = () => void;
+
+const unauthorizedListeners = new Set<UnauthorizedListener>();
+
+/**
+ * Subscribe to session expiry. Fired when an authenticated request comes back
+ * 401, after the stored token has been cleared. Returns an unsubscribe function.
+ */
+export function onUnauthorized(listener: UnauthorizedListener) {
+  unauthorizedListeners.add(listener);
+  return () => {
+    unauthorizedListeners.delete(listener);
+  };
+}
+
+interface ValidationErrorItem {
+  loc?: (string | number)[];
+  msg?: string;
+}
+
+// FastAPI sends `detail` as a string for HTTPException and as a list of
+// { loc, msg, type } objects for request validation errors.
+export function formatErrorDetail(detail: unknown): string | undefined {
+  if (typeof detail === 'string') return detail;
+  if (Array.isArray(detail)) {
+    const messages = detail
+      .map((item: ValidationErrorItem) => {
+        if (!item?.msg) return undefined;
+        const field = item.loc?.filter(part => part !== 'body').join('.');
+        return field ? `${field}: ${item.msg}` : item.msg;
+      })
+      .filter(Boolean);
+    return messages.length > 0 ? messages.join('; ') : undefined;
+  }
+  if (detail && typeof detail === 'object' && 'message' in detail) {
+    const message = (detail as { message: unknown }).message;
+    if (typeof message === 'string') return message;
+  }
+  return undefined;
+}
+
+async function toApiError(response: Response): Promise<ApiError> {
+  let detail: unknown;
+  try {
+    const body = await response.json();
+    detail = body?.detail ?? body;
+  } catch {
+    detail = undefined;
+  }
+  const message = formatErrorDetail(detail) || `Request failed with status ${response.status}`;
+  return new ApiError(response.status, message, detail);
+}
+
+export interface RequestOptions extends Omit<RequestInit, 'body'> {
+  body?: unknown;
+  /** Send the stored bearer token. Defaults to true. */
+  auth?: boolean;
+}
+
+/**
+ * Performs a request against the backend and returns the raw response once it
+ * is known to be successful. Use this for streaming endpoints; `request` is the
+ * JSON convenience wrapper.
+ */
+export async function requestRaw(path: string, options: RequestOptions = {}): Promise<Response> {
+  const { body, auth = true, headers, ...init } = options;
+  const requestHeaders = new Headers(headers);
+
+  const token = auth ? getAuthToken() : null;
+  if (token) {
+    requestHeaders.set('Authorization', `Bearer ${token}`);
+  }
+  if (body !== undefined) {
+    requestHeaders.set('Content-Type', 'application/json');
+  }
+
+  const response = await fetch(`${API_BASE_URL}${path}`, {
+    ...init,
+    headers: requestHeaders,
+    body: body !== undefined ? JSON.stringify(body) : undefined,
+  });
+
+  if (!response.ok) {
+    if (response.status === 401 && token) {
+      clearAuthToken();
+      unauthorizedListeners.forEach(listener => listener());
+    }
+    throw await toApiError(response);
+  }
+
+  return response;
+}
+
+export async function request<T>(path: string, options: RequestOptions = {}): Promise<T> {
+  const response = await requestRaw(path, options);
+  if (response.status === 204) {
+    return undefined as T;
+  }
+  return response.json() as Promise<T>;
+}
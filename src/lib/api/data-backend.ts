@@ -0,0 +1,153 @@
+import { getLocalCatalog } from "@/lib/local/catalog";
+import * as localKeys from "@/lib/local/keys";
+import { isLocalMode, LOCAL_USER } from "@/lib/local/mode";
+import * as localStore from "@/lib/local/store";
+import { request } from "./client";
+import type {
+  ApiKey,
+  ApiKeyCreate,
+  ApiKeyRotation,
+  ApiKeyTestResult,
+  ApiKeyUpdate,
+  Assistant,
+  AssistantCreate,
+  AssistantUpdate,
+  PromptTemplate,
+  PromptTemplateCreate,
+  PromptTemplateUpdate,
+  ProvidersAndModels,
+  SearchResult,
+  Thread,
+  ThreadCreate,
+  ThreadMessage,
+  ThreadMessageCreate,
+  ThreadUpdate,
+  UsageRecord,
+  User,
+} from "./types";
+
+/**
+ * Where the user's threads, library, keys and usage are kept. The endpoint
+ * functions go through whichever backend `getDataBackend` returns, so
+ * components work the same against either. Failures are thrown as ApiError.
+ */
+export interface DataBackend {
+  getCurrentUser(): Promise<User>;
+
+  listThreads(): Promise<Thread[]>;
+  createThread(payload: ThreadCreate): Promise<Thread>;
+  getThread(threadId: string): Promise<Thread>;
+  updateThread(threadId: string, payload: ThreadUpdate): Promise<Thread>;
+  deleteThread(threadId: string): Promise<void>;
+  getThreadMessages(threadId: string): Promise<ThreadMessage[]>;
+  appendThreadMessages(threadId: string, messages: ThreadMessageCreate[], parentId: string | null): Promise<ThreadMessage[]>;
+  searchConversations(query: string, signal?: AbortSignal): Promise<SearchResult[]>;
+
+  listAssistants(): Promise<Assistant[]>;
+  getAssistant(assistantId: string): Promise<Assistant>;
+  createAssistant(payload: AssistantCreate): Promise<Assistant>;
+  updateAssistant(assistantId: string, payload: AssistantUpdate): Promise<Assistant>;
+  deleteAssistant(assistantId: string): Promise<void>;
+
+  listPromptTemplates(): Promise<PromptTemplate[]>;
+  createPromptTemplate(payload: PromptTemplateCreate): Promise<PromptTemplate>;
+  updatePromptTemplate(promptId: string, payload: PromptTemplateUpdate): Promise<PromptTemplate>;
+  deletePromptTemplate(promptId: string): Promise<void>;
+
+  listApiKeys(): Promise<ApiKey[]>;
+  createApiKey(payload: ApiKeyCreate): Promise<ApiKey>;
+  updateApiKey(keyId: string, payload: ApiKeyUpdate): Promise<ApiKey>;
+  testApiKey(keyId: string): Promise<ApiKeyTestResult>;
+  rotateApiKey(keyId: string, apiKey: string): Promise<ApiKeyRotation>;
+  reorderApiKeys(provider: string, keyIds: string[]): Promise<ApiKey[]>;
+  deleteApiKey(keyId: string): Promise<void>;
+
+  getUsage(start: string, end: string): Promise<UsageRecord[]>;
+  getProvidersAndModels(): Promise<ProvidersAndModels>;
+}
+
+const threadPath = (threadId: string) => `/threads/${encodeURIComponent(threadId)}`;
+const assistantPath = (assistantId: string) => `/assistants/${encodeURIComponent(assistantId)}`;
+const promptPath = (promptId: string) => `/prompts/${encodeURIComponent(promptId)}`;
+const keyPath = (keyId: string) => `/api-keys/${encodeURIComponent(keyId)}`;
+
+/** The signed-in account's data on the backend. */
+export const serverDataBackend: DataBackend = {
+  getCurrentUser: () => request<User>('/auth/me'),
+
+  listThreads: () => request<Thread[]>('/threads'),
+  createThread: (payload) => request<Thread>('/threads', { method: 'POST', body: payload }),
+  getThread: (threadId) => request<Thread>(threadPath(threadId)),
+  updateThread: (threadId, payload) => request<Thread>(threadPath(threadId), { method: 'PATCH', body: payload }),
+  deleteThread: (threadId) => request<void>(threadPath(threadId), { method: 'DELETE' }),
+  getThreadMessages: (threadId) => request<ThreadMessage[]>(`${threadPath(threadId)}/messages`),
+  appendThreadMessages: (threadId, messages, parentId) =>
+    request<ThreadMessage[]>(`${threadPath(threadId)}/messages`, {
+      method: 'POST',
+      body: { parent_id: parentId, messages },
+    }),
+  searchConversations: (query, signal) => request<SearchResult[]>(`/search?q=${encodeURIComponent(query)}`, { signal }),
+
+  listAssistants: () => request<Assistant[]>('/assistants'),
+  getAssistant: (assistantId) => request<Assistant>(assistantPath(assistantId)),
+  createAssistant: (payload) => request<Assistant>('/assistants', { method: 'POST', body: payload }),
+  updateAssistant: (assistantId, payload) => request<Assistant>(assistantPath(assistantId), { method: 'PATCH', body: payload }),
+  deleteAssistant: (assistantId) => request<void>(assistantPath(assistantId), { method: 'DELETE' }),
+
+  listPromptTemplates: () => request<PromptTemplate[]>('/prompts'),
+  createPromptTemplate: (payload) => request<PromptTemplate>('/prompts', { method: 'POST', body: payload }),
+  updatePromptTemplate: (promptId, payload) => request<PromptTemplate>(promptPath(promptId), { method: 'PATCH', body: payload }),
+  deletePromptTemplate: (promptId) => request<void>(promptPath(promptId), { method: 'DELETE' }),
+
+  listApiKeys: () => request<ApiKey[]>('/api-keys'),
+  createApiKey: (payload) => request<ApiKey>('/api-keys', { method: 'POST', body: payload }),
+  updateApiKey: (keyId, payload) => request<ApiKey>(keyPath(keyId), { method: 'PATCH', body: payload }),
+  testApiKey: (keyId) => request<ApiKeyTestResult>(`${keyPath(keyId)}/test`, { method: 'POST' }),
+  rotateApiKey: (keyId, apiKey) =>
+    request<ApiKeyRotation>(`${keyPath(keyId)}/rotate`, { method: 'POST', body: { api_key: apiKey } }),
+  reorderApiKeys: (provider, keyIds) =>
+    request<ApiKey[]>('/api-keys/order', { method: 'PUT', body: { provider, key_ids: keyIds } }),
+  deleteApiKey: (keyId) => request<void>(keyPath(keyId), { method: 'DELETE' }),
+
+  getUsage: (start, end) =>
+    request<UsageRecord[]>(`/usage?start=${encodeURIComponent(start)}&end=${encodeURIComponent(end)}`),
+  getProvidersAndModels: () => request<ProvidersAndModels>('/providers-and-models', { auth: false }),
+};
+
+/** This browser's IndexedDB, with keys from the local vault; see `@/lib/local`. */
+export const localDataBackend: DataBackend = {
+  getCurrentUser: async () => LOCAL_USER,
+
+  listThreads: localStore.listThreads,
+  createThread: localStore.createThread,
+  getThread: localStore.getThread,
+  updateThread: localStore.updateThread,
+  deleteThread: localStore.deleteThread,
+  getThreadMessages: localStore.getThreadMessages,
+  appendThreadMessages: localStore.appendThreadMessages,
+  searchConversations: (query) => localStore.searchConversations(query),
+
+  listAssistants: localStore.listAssistants,
+  getAssistant: localStore.getAssistant,
+  createAssistant: localStore.createAssistant,
+  updateAssistant: localStore.updateAssistant,
+  deleteAssistant: localStore.deleteAssistant,
+
+  listPromptTemplates: localStore.listPromptTemplates,
+  createPromptTemplate: localStore.createPromptTemplate,
+  updatePromptTemplate: localStore.updatePromptTemplate,
+  deletePromptTemplate: localStore.deletePromptTemplate,
+
+  listApiKeys: localKeys.listApiKeys,
+  createApiKey: localKeys.createApiKey,
+  updateApiKey: localKeys.updateApiKey,
+  testApiKey: localKeys.testApiKey,
+  rotateApiKey: localKeys.rotateApiKey,
+  reorderApiKeys: localKeys.reorderApiKeys,
+  deleteApiKey: localKeys.deleteApiKey,
+
+  getUsage: localStore.getUsage,
+  getProvidersAndModels: async () => getLocalCatalog(),
+};
+
+export const getDataBackend = (): DataBackend => isLocalMode() ? localDataBackend : serverDataBackend;
@@ -0,0 +1,119 @@
+import { request, requestRaw } from "./client";
+import { getDataBackend } from "./data-backend";
+import type {
+  ApiKeyCreate,
+  ApiKeyUpdate,
+  AssistantCreate,
+  AssistantUpdate,
+  ChatRequest,
+  Credentials,
+  PromptTemplateCreate,
+  PromptTemplateUpdate,
+  ThreadCreate,
+  ThreadMessageCreate,
+  ThreadUpdate,
+  TokenResponse,
+  User,
+} from "./types";
+
+// Everything except sign-in and the server chat stream is answered by the
+// data backend: the server, or this browser's IndexedDB in local mode.
+
+// Auth
+
+export const login = (credentials: Credentials) =>
+  request<TokenResponse>('/auth/login', { method: 'POST', body: credentials, auth: false });
+
+export const register = (credentials: Credentials) =>
+  request<User>('/auth/register', { method: 'POST', body: credentials, auth: false });
+
+export const getCurrentUser = () => getDataBackend().getCurrentUser();
+
+// Threads
+
+export const listThreads = () => getDataBackend().listThreads();
+
+export const createThread = (payload: ThreadCreate) => getDataBackend().createThread(payload);
+
+export const getThread = (threadId: string) => getDataBackend().getThread(threadId);
+
+export const updateThread = (threadId: string, payload: ThreadUpdate) => getDataBackend().updateThread(threadId, payload);
+
+export const deleteThread = (threadId: string) => getDataBackend().deleteThread(threadId);
+
+export const getThreadMessages = (threadId: string) => getDataBackend().getThreadMessages(threadId);
+
+/**
+ * Stores already-generated messages on a thread as a chain: the first follows
+ * `parentId` (or starts the thread when null) and each later one follows the
+ * previous entry.
+ */
+export const appendThreadMessages = (
+  threadId: string,
+  messages: ThreadMessageCreate[],
+  parentId: string | null = null
+) => getDataBackend().appendThreadMessages(threadId, messages, parentId);
+
+/** Full-text search over thread titles and message bodies. */
+export const searchConversations = (query: string, signal?: AbortSignal) =>
+  getDataBackend().searchConversations(query, signal);
+
+// Chat
+
+/**
+ * Starts a chat completion on the server and returns the response whose body
+ * is the SSE stream. Components go through `getChatAdapter`, which also covers local mode.
+ */
+export const streamChat = (payload: ChatRequest, signal?: AbortSignal) =>
+  requestRaw('/chat', { method: 'POST', body: payload, signal });
+
+// Assistants
+
+export const listAssistants = () => getDataBackend().listAssistants();
+
+export const getAssistant = (assistantId: string) => getDataBackend().getAssistant(assistantId);
+
+export const createAssistant = (payload: AssistantCreate) => getDataBackend().createAssistant(payload);
+
+export const updateAssistant = (assistantId: string, payload: AssistantUpdate) =>
+  getDataBackend().updateAssistant(assistantId, payload);
+
+export const deleteAssistant = (assistantId: string) => getDataBackend().deleteAssistant(assistantId);
+
+// Prompt library
+
+export const listPromptTemplates = () => getDataBackend().listPromptTemplates();
+
+export const createPromptTemplate = (payload: PromptTemplateCreate) => getDataBackend().createPromptTemplate(payload);
+
+export const updatePromptTemplate = (promptId: string, payload: PromptTemplateUpdate) =>
+  getDataBackend().updatePromptTemplate(promptId, payload);
+
+export const deletePromptTemplate = (promptId: string) => getDataBackend().deletePromptTemplate(promptId);
+
+// API keys
+
+export const listApiKeys = () => getDataBackend().listApiKeys();
+
+export const createApiKey = (payload: ApiKeyCreate) => getDataBackend().createApiKey(payload);
+
+export const updateApiKey = (keyId: string, payload: ApiKeyUpdate) => getDataBackend().updateApiKey(keyId, payload);
+
+/** Makes a minimal call to the provider with the stored key and records the outcome on it. */
+export const testApiKey = (keyId: string) => getDataBackend().testApiKey(keyId);
+
+export const rotateApiKey = (keyId: string, apiKey: string) => getDataBackend().rotateApiKey(keyId, apiKey);
+
+/** Sets a provider's failover order; the first active key becomes its default. Returns the provider's keys. */
+export const reorderApiKeys = (provider: string, keyIds: string[]) => getDataBackend().reorderApiKeys(provider, keyIds);
+
+export const deleteApiKey = (keyId: string) => getDataBackend().deleteApiKey(keyId);
+
+// Usage
+
+/** Daily usage between two YYYY-MM-DD dates, both included. */
+export const getUsage = (start: string, end: string) => getDataBackend().getUsage(start, end);
+
+// Catalog
+
+export const getProvidersAndModels = () => getDataBackend().getProvidersAndModels();
@@ -0,0 +1,6 @@
+export * from "./client";
+export * from "./endpoints";
+export * from "./chat-stream";
+export * from "./chat-adapter";
+export * from "./data-backend";
+export type * from "./types";
@@ -0,0 +1,334 @@
+// Shapes returned by and sent to the FastAPI backend.
+
+export interface User {
+  id: string;
+  email: string;
+  created_at?: string;
+}
+
+export interface TokenResponse {
+  access_token: string;
+  token_type: string;
+}
+
+export interface Credentials {
+  email: string;
+  password: string;
+}
+
+export interface Provider {
+  id: string;
+  name: string;
+}
+
+export interface ModelCapabilities {
+  /** Accepts images as `image_url` content parts. */
+  vision?: boolean;
+}
+
+export interface ProvidersAndModels {
+  providers: Provider[];
+  models_by_provider: Record<string, string[]>;
+  /** Keyed by provider id, then model name. Models that are missing have no known capabilities. */
+  model_capabilities?: Record<string, Record<string, ModelCapabilities>>;
+}
+
+/**
+ * Per-thread system prompt and sampling parameters. Unset fields fall back to
+ * the provider's defaults.
+ */
+export interface GenerationSettings {
+  system_prompt?: string;
+  temperature?: number;
+  top_p?: number;
+  max_tokens?: number;
+  stop?: string[];
+  presence_penalty?: number;
+  frequency_penalty?: number;
+}
+
+/** A saved persona: starting a chat from it applies its model and settings. */
+export interface Assistant {
+  id: string;
+  name: string;
+  /** An emoji shown in place of the default bot icon. */
+  avatar?: string | null;
+  provider: string;
+  model_name: string;
+  settings?: GenerationSettings | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface AssistantCreate {
+  name: string;
+  avatar?: string | null;
+  provider: string;
+  model_name: string;
+  settings?: GenerationSettings;
+}
+
+export type AssistantUpdate = Partial<AssistantCreate>;
+
+export interface Thread {
+  id: string;
+  title: string;
+  provider: string;
+  model_name: string;
+  created_at: string;
+  updated_at: string;
+  is_pinned?: boolean;
+  is_archived?: boolean;
+  settings?: GenerationSettings | null;
+  /** Assistant the conversation was started from, if any. */
+  assistant_id?: string | null;
+  /** Set on threads brought in from another app's data export. */
+  import_source?: ImportSource | null;
+  /** Key the thread's chats try first; null uses the provider's default key. */
+  api_key_id?: string | null;
+  /** Failed chats show an error instead of moving down the fallback chain. */
+  fallbacks_disabled?: boolean;
+}
+
+/** Where an imported thread came from, used to spot conversations imported twice. */
+export interface ImportSource {
+  app: 'chatgpt' | 'claude';
+  /** The conversation's id in that app's export. */
+  conversation_id: string;
+}
+
+/** OpenAI-style content part; attachments are sent as these alongside the prompt text. */
+export type MessageContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+/** What is kept of an attachment once its message is stored. */
+export interface MessageAttachment {
+  name: string;
+  kind: 'image' | 'text' | 'pdf';
+  size: number;
+}
+
+export interface ThreadMessage {
+  id: string;
+  thread_id?: string;
+  parent_id?: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  created_at: string;
+  model_name?: string;
+  provider?: string;
+  attachments?: MessageAttachment[];
+  /** What `attachments` contained, as sent with the prompt, so it can be answered or edited again. */
+  content_parts?: MessageContentPart[] | null;
+  /** Token counts reported by the provider, when it sent them. */
+  usage?: TokenUsage | null;
+  /** Key that served an assistant answer. */
+  api_key_id?: string | null;
+  /** True when earlier keys in the failover order failed before this one answered. */
+  failed_over?: boolean;
+  /** Set when the model asked for failed and this answer came from the fallback chain. */
+  fallback_from?: FallbackOrigin | null;
+}
+
+/** What made a chat move on to the next model in the fallback chain. */
+export type FallbackReason = 'rate_limited' | 'timeout' | 'server_error' | 'network';
+
+export interface FallbackOrigin {
+  provider: string;
+  model_name: string;
+  reason: FallbackReason;
+}
+
+/** A thread title hit (no `message_id`) or a message hit with a snippet around the match. */
+export interface SearchResult {
+  thread_id: string;
+  thread_title: string;
+  message_id?: string | null;
+  role?: 'user' | 'assistant';
+  snippet: string;
+  created_at: string;
+}
+
+export interface ChatRequest {
+  message: string;
+  thread_id?: string;
+  provider: string;
+  model_name: string;
+  stream: boolean;
+  /**
+   * Message the new one hangs off: the previous turn for a new prompt, or the
+   * prompt being answered again when `regenerate` is set.
+   */
+  parent_message_id?: string | null;
+  /** Produce another answer for `parent_message_id` without storing a new prompt. */
+  regenerate?: boolean;
+  /** Defaults to true. When false the exchange is answered but not stored (comparison runs). */
+  persist?: boolean;
+  /** Only the parameters the provider supports. Stored on the thread when this request creates it. */
+  settings?: GenerationSettings;
+  /** Tags the thread this request creates with the assistant it was started from. */
+  assistant_id?: string;
+  /**
+   * Parts sent to the model after `message`: images as data URLs and the text
+   * of attached files. Stored on the prompt as `content_parts`.
+   */
+  content_parts?: MessageContentPart[];
+  attachments?: MessageAttachment[];
+  /**
+   * Key to try first; defaults to the provider's default key. If it fails with
+   * an auth, quota or rate limit error the provider's other active keys are
+   * tried in failover order. Stored on the thread when this request creates it.
+   */
+  api_key_id?: string;
+  /** Stored on the answer when this request is a fallback after another model failed. */
+  fallback_from?: FallbackOrigin;
+  /** Stored on the thread when this request creates it. */
+  fallbacks_disabled?: boolean;
+}
+
+export interface ThreadCreate {
+  title: string;
+  provider: string;
+  model_name: string;
+  settings?: GenerationSettings;
+  assistant_id?: string;
+  /** Key pinned before the first message; null uses the provider's default key. */
+  api_key_id?: string | null;
+  fallbacks_disabled?: boolean;
+  import_source?: ImportSource;
+  /** Only set when importing history; new threads are stamped by the server. */
+  created_at?: string;
+}
+
+export interface ThreadUpdate {
+  title?: string;
+  is_pinned?: boolean;
+  is_archived?: boolean;
+  settings?: GenerationSettings;
+  api_key_id?: string | null;
+  fallbacks_disabled?: boolean;
+}
+
+export interface ThreadMessageCreate {
+  role: 'user' | 'assistant';
+  content: string;
+  model_name?: string;
+  provider?: string;
+  /** Original timestamp of an imported message; defaults to now. */
+  created_at?: string;
+}
+
+/** A saved prompt whose `{{variable}}` placeholders are filled in before use. */
+export interface PromptTemplate {
+  id: string;
+  name: string;
+  content: string;
+  folder?: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface PromptTemplateCreate {
+  name: string;
+  content: string;
+  folder?: string | null;
+}
+
+export type PromptTemplateUpdate = Partial<PromptTemplateCreate>;
+
+/** What the chat does once a key has spent its monthly budget. */
+export type BudgetExhaustedAction = 'confirm' | 'block';
+
+/** Guardrails for a key shared by several people or sessions. */
+export interface ApiKeyLimits {
+  /** Spending limit per calendar month in US dollars; null for none. */
+  monthly_budget_usd?: number | null;
+  /** Percentages of the budget at which the chat warns. Defaults to 50, 80 and 100. */
+  budget_alert_thresholds?: number[] | null;
+  /** Defaults to asking for confirmation. */
+  on_budget_exhausted?: BudgetExhaustedAction;
+  /** Chat requests allowed per minute; null for no cap. Enforced by the server as well. */
+  rate_limit_per_minute?: number | null;
+}
+
+export interface ApiKey extends ApiKeyLimits {
+  id: string;
+  provider: string;
+  model_name: string;
+  key_name: string;
+  is_active: boolean;
+  created_at: string;
+  /**
+   * Position in the provider's failover order, lowest first. The first active
+   * key is the provider's default.
+   */
+  failover_priority?: number;
+  /** When a test call last succeeded; null if it never has. */
+  last_verified_at?: string | null;
+  /** Outcome of the most recent test, successful or not. */
+  last_test?: ApiKeyTestResult | null;
+}
+
+export interface ApiKeyCreate extends ApiKeyLimits {
+  provider: string;
+  model_name: string;
+  api_key: string;
+  key_name: string;
+}
+
+export interface ApiKeyUpdate extends ApiKeyLimits {
+  key_name?: string;
+  model_name?: string;
+  /** Inactive keys are kept but never used for chats. */
+  is_active?: boolean;
+}
+
+/** Why a key test failed, as classified by the backend from the provider's error. */
+export type ApiKeyTestErrorCode =
+  | 'invalid_key'
+  | 'insufficient_quota'
+  | 'model_not_permitted'
+  | 'region_blocked'
+  | 'rate_limited'
+  | 'provider_unavailable'
+  | 'unknown';
+
+/** Result of a minimal provider call made with a stored key. */
+export interface ApiKeyTestResult {
+  ok: boolean;
+  /** Round trip to the provider in milliseconds; missing when it could not be reached. */
+  latency_ms?: number | null;
+  error_code?: ApiKeyTestErrorCode | null;
+  /** The provider's own error message, when there is one. */
+  message?: string | null;
+  checked_at: string;
+}
+
+/**
+ * Outcome of swapping in a new secret. The backend tests the new secret first
+ * and keeps the old one when the test fails, so `key` is unchanged then.
+ */
+export interface ApiKeyRotation {
+  key: ApiKey;
+  test: ApiKeyTestResult;
+}
+
+/** Requests and tokens for one provider, model and key on one day. */
+export interface UsageRecord {
+  /** Calendar day, YYYY-MM-DD. */
+  date: string;
+  provider: string;
+  model_name: string;
+  /** Null when the key has since been deleted. */
+  api_key_id?: string | null;
+  requests: number;
+  prompt_tokens: number;
+  completion_tokens: number;
+}
+
+export interface TokenUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+}
@@ -0,0 +1,113 @@
+import type { MessageAttachment, MessageContentPart } from "@/lib/api";
+import { extractPdfText } from "./pdf-text";
+
+export type AttachmentKind = MessageAttachment['kind'];
+
+export interface ComposerAttachment extends MessageAttachment {
+  id: string;
+  status: 'processing' | 'ready' | 'error';
+  error?: string;
+  /** Data URL of an image attachment. */
+  dataUrl?: string;
+  /** Contents of a text file or the extracted text of a PDF. */
+  text?: string;
+}
+
+export const MAX_ATTACHMENTS = 10;
+
+const MB = 1024 * 1024;
+
+export const SIZE_LIMITS: Record<AttachmentKind, number> = {
+  image: 5 * MB,
+  text: 1 * MB,
+  pdf: 20 * MB,
+};
+
+const IMAGE_TYPES = ['image/png', 'image/jpeg', 'image/gif', 'image/webp'];
+
+const TEXT_EXTENSIONS = [
+  'txt', 'md', 'markdown', 'csv', 'tsv', 'json', 'jsonl', 'yaml', 'yml', 'toml', 'xml', 'html', 'css', 'scss',
+  'js', 'jsx', 'ts', 'tsx', 'mjs', 'cjs', 'py', 'rb', 'go', 'rs', 'java', 'kt', 'swift', 'c', 'h', 'cpp', 'hpp',
+  'cs', 'php', 'sh', 'bash', 'zsh', 'sql', 'graphql', 'proto', 'ini', 'env', 'log', 'vue', 'svelte', 'lua', 'r',
+];
+
+export class AttachmentError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AttachmentError';
+  }
+}
+
+export const formatFileSize = (bytes: number) => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < MB) return `${Math.round(bytes / 1024)} KB`;
+  return `${(bytes / MB).toFixed(1)} MB`;
+};
+
+export const detectAttachmentKind = (file: File): AttachmentKind | null => {
+  if (IMAGE_TYPES.includes(file.type)) return 'image';
+  if (file.type === 'application/pdf') return 'pdf';
+  const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+  if (file.type.startsWith('text/') || TEXT_EXTENSIONS.includes(extension)) return 'text';
+  return null;
+};
+
+/** Checks type and size up front so unsupported files are rejected before they are read. */
+export const validateAttachment = (file: File, supportsVision: boolean): AttachmentKind => {
+  const kind = detectAttachmentKind(file);
+  if (!kind) {
+    throw new AttachmentError(`${file.name}: unsupported file type. Attach images, PDFs or text and code files.`);
+  }
+  if (kind === 'image' && !supportsVision) {
+    throw new AttachmentError(`${file.name}: the selected model does not accept images.`);
+  }
+  if (file.size > SIZE_LIMITS[kind]) {
+    throw new AttachmentError(
+      `${file.name} is ${formatFileSize(file.size)}; ${kind === 'pdf' ? 'PDFs' : `${kind} files`} can be at most ${formatFileSize(SIZE_LIMITS[kind])}.`
+    );
+  }
+  return kind;
+};
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+/** Reads a validated file into the form it is sent in. */
+export async function readAttachment(file: File, kind: AttachmentKind): Promise<Pick<ComposerAttachment, 'dataUrl' | 'text'>> {
+  if (kind === 'image') {
+    return { dataUrl: await readAsDataUrl(file) };
+  }
+
+  if (kind === 'pdf') {
+    const text = await extractPdfText(await file.arrayBuffer());
+    if (!text) {
+      throw new AttachmentError(`${file.name}: no text found. Scanned PDFs are not supported.`);
+    }
+    return { text };
+  }
+
+  const text = await file.text();
+  if (text.includes('\u0000')) {
+    throw new AttachmentError(`${file.name} looks like a binary file.`);
+  }
+  return { text };
+}
+
+/** Images become `image_url` parts; files become text parts labelled with their name. */
+export const toContentParts = (attachments: ComposerAttachment[]): MessageContentPart[] =>
+  attachments.flatMap((attachment): MessageContentPart[] => {
+    if (attachment.kind === 'image' && attachment.dataUrl) {
+      return [{ type: 'image_url', image_url: { url: attachment.dataUrl } }];
+    }
+    if (attachment.text !== undefined) {
+      return [{ type: 'text', text: `Attached file "${attachment.name}":\n\n${attachment.text}` }];
+    }
+    return [];
+  });
+
+export const toMessageAttachment = ({ name, kind, size }: ComposerAttachment): MessageAttachment => ({ name, kind, size });
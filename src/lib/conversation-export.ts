@@ -0,0 +1,294 @@
+import { createElement } from "react";
+import ReactMarkdown from "react-markdown";
+import remarkGfm from "remark-gfm";
+import { getThread, getThreadMessages, type Thread, type ThreadMessage } from "@/lib/api";
+import { formatFileSize } from "@/lib/attachments";
+import { getActivePath, linkLinearMessages, type BranchSelection } from "@/lib/conversation-tree";
+import { downloadFile } from "@/lib/download";
+
+export type ExportFormat = 'markdown' | 'json' | 'html' | 'pdf';
+
+export const EXPORT_FORMATS: { format: ExportFormat; label: string }[] = [
+  { format: 'markdown', label: 'Markdown (.md)' },
+  { format: 'json', label: 'JSON (.json)' },
+  { format: 'html', label: 'Web page (.html)' },
+  { format: 'pdf', label: 'PDF (print)' },
+];
+
+/**
+ * JSON exports follow this schema. `messages` holds every stored message of
+ * the conversation, including alternative branches from edits and
+ * regenerations, ordered by `created_at`; follow `parent_id` to rebuild the
+ * tree. The Markdown, HTML and PDF formats only show the selected branch.
+ *
+ * Bump EXPORT_SCHEMA_VERSION whenever a field is removed or changes meaning.
+ */
+export const EXPORT_SCHEMA = 'byok-chat/conversations';
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export interface ConversationExportFile {
+  schema: typeof EXPORT_SCHEMA;
+  version: typeof EXPORT_SCHEMA_VERSION;
+  /** ISO 8601 timestamp. */
+  exported_at: string;
+  conversations: ExportedConversation[];
+}
+
+export interface ExportedConversation {
+  id: string;
+  title: string;
+  /** Model the conversation was started with; each message records the one that answered it. */
+  provider: string;
+  model: string;
+  assistant_id: string | null;
+  settings: Thread['settings'] | null;
+  created_at: string;
+  updated_at: string;
+  messages: ExportedMessage[];
+}
+
+export interface ExportedMessage {
+  id: string;
+  /** Message this one follows, null for the first turn. */
+  parent_id: string | null;
+  role: 'user' | 'assistant';
+  content: string;
+  /** Set on assistant messages. */
+  provider: string | null;
+  model: string | null;
+  created_at: string;
+  /** Names, kinds and sizes only; attachment contents are not stored. */
+  attachments: ThreadMessage['attachments'];
+}
+
+export interface ConversationData {
+  thread: Thread;
+  messages: ThreadMessage[];
+  /** Branch to show in the rendered formats; defaults to the most recent one. */
+  selection?: BranchSelection;
+}
+
+const formatDate = (value: string) => new Date(value).toLocaleString();
+
+const roleLabel = (message: ThreadMessage) =>
+  message.role === 'user' ? 'User' : `Assistant${message.model_name ? ` (${message.model_name})` : ''}`;
+
+/** The messages on the selected branch, in conversation order. */
+const transcriptOf = ({ messages, selection }: ConversationData): ThreadMessage[] => {
+  const nodes = linkLinearMessages(messages.map(message => ({
+    id: message.id,
+    parentId: message.parent_id ?? null,
+    timestamp: new Date(message.created_at),
+    message,
+  })));
+  return getActivePath(nodes, selection ?? {}).map(node => node.message);
+};
+
+const describeAttachments = (message: ThreadMessage) =>
+  (message.attachments ?? []).map(attachment => `${attachment.name} (${formatFileSize(attachment.size)})`).join(', ');
+
+export function toExportFile(conversations: ConversationData[]): ConversationExportFile {
+  return {
+    schema: EXPORT_SCHEMA,
+    version: EXPORT_SCHEMA_VERSION,
+    exported_at: new Date().toISOString(),
+    conversations: conversations.map(({ thread, messages }) => ({
+      id: thread.id,
+      title: thread.title,
+      provider: thread.provider,
+      model: thread.model_name,
+      assistant_id: thread.assistant_id ?? null,
+      settings: thread.settings ?? null,
+      created_at: thread.created_at,
+      updated_at: thread.updated_at,
+      messages: [...messages]
+        .sort((a, b) => a.created_at.localeCompare(b.created_at))
+        .map(message => ({
+          id: message.id,
+          parent_id: message.parent_id ?? null,
+          role: message.role,
+          content: message.content,
+          provider: message.provider ?? null,
+          model: message.model_name ?? null,
+          created_at: message.created_at,
+          attachments: message.attachments ?? [],
+        })),
+    })),
+  };
+}
+
+export function toMarkdown(conversations: ConversationData[]): string {
+  return conversations.map(conversation => {
+    const { thread } = conversation;
+    const lines = [
+      `# ${thread.title}`,
+      '',
+      `- Model: ${thread.model_name} (${thread.provider})`,
+      `- Started: ${formatDate(thread.created_at)}`,
+      `- Exported: ${formatDate(new Date().toISOString())}`,
+    ];
+    if (thread.settings?.system_prompt) {
+      lines.push('', '**System prompt**', '', ...thread.settings.system_prompt.split('\n').map(line => `> ${line}`));
+    }
+
+    for (const message of transcriptOf(conversation)) {
+      lines.push('', '---', '', `### ${roleLabel(message)} · ${formatDate(message.created_at)}`, '');
+      const attachments = describeAttachments(message);
+      if (attachments) lines.push(`_Attachments: ${attachments}_`, '');
+      lines.push(message.content);
+    }
+    return lines.join('\n');
+  }).join('\n\n\n');
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/[&<>"']/g, char => ({ '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' }[char]!));
+
+// react-dom/server is only needed for HTML and PDF exports, so it stays out of
+// the main bundle until one is made. Raw HTML in messages stays escaped, as in the chat view.
+async function loadMarkdownRenderer() {
+  const { renderToStaticMarkup } = await import("react-dom/server");
+  return (content: string) =>
+    renderToStaticMarkup(createElement(ReactMarkdown, { remarkPlugins: [remarkGfm] }, content));
+}
+
+const HTML_STYLES = `
+  body { margin: 0; background: #f8fafc; color: #0f172a; font: 15px/1.6 system-ui, -apple-system, "Segoe UI", sans-serif; }
+  main { max-width: 800px; margin: 0 auto; padding: 40px 24px; }
+  article + article { margin-top: 64px; }
+  h1 { font-size: 26px; margin: 0 0 8px; }
+  .meta { color: #64748b; font-size: 13px; margin: 0 0 24px; }
+  .system { border-left: 3px solid #94a3b8; padding: 4px 12px; margin: 0 0 24px; color: #475569; white-space: pre-wrap; }
+  .message { border-radius: 12px; padding: 12px 16px; margin: 0 0 16px; background: #fff; border: 1px solid #e2e8f0; }
+  .message.user { background: #eff6ff; border-color: #bfdbfe; }
+  .message header { display: flex; justify-content: space-between; gap: 12px; font-size: 12px; color: #64748b; margin-bottom: 4px; }
+  .message header strong { color: #0f172a; }
+  .attachments { font-size: 12px; color: #64748b; }
+  .content > :first-child { margin-top: 0; }
+  .content > :last-child { margin-bottom: 0; }
+  pre { background: #0f172a; color: #e2e8f0; padding: 12px; border-radius: 8px; overflow-x: auto; white-space: pre-wrap; word-break: break-word; }
+  code { font: 13px ui-monospace, SFMono-Regular, Menlo, monospace; }
+  :not(pre) > code { background: #e2e8f0; padding: 1px 4px; border-radius: 4px; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #cbd5e1; padding: 4px 8px; }
+  blockquote { margin-left: 0; padding-left: 12px; border-left: 3px solid #cbd5e1; color: #475569; }
+  @media print {
+    body { background: #fff; font-size: 12px; }
+    main { max-width: none; padding: 0; }
+    article + article { break-before: page; margin-top: 0; }
+    .message { break-inside: avoid; }
+    pre { white-space: pre-wrap; }
+  }
+`;
+
+/** A standalone page with its styles inlined, so it can be opened or attached anywhere. */
+export async function toHtml(conversations: ConversationData[]): Promise<string> {
+  const renderMarkdown = await loadMarkdownRenderer();
+  const articles = conversations.map(conversation => {
+    const { thread } = conversation;
+    const messages = transcriptOf(conversation).map(message => {
+      const attachments = describeAttachments(message);
+      return `
+      <section class="message ${message.role}">
+        <header><strong>${escapeHtml(roleLabel(message))}</strong><time datetime="${escapeHtml(message.created_at)}">${escapeHtml(formatDate(message.created_at))}</time></header>
+        ${attachments ? `<p class="attachments">Attachments: ${escapeHtml(attachments)}</p>` : ''}
+        <div class="content">${renderMarkdown(message.content)}</div>
+      </section>`;
+    }).join('');
+
+    return `
+    <article>
+      <h1>${escapeHtml(thread.title)}</h1>
+      <p class="meta">${escapeHtml(thread.model_name)} (${escapeHtml(thread.provider)}) · started ${escapeHtml(formatDate(thread.created_at))}</p>
+      ${thread.settings?.system_prompt ? `<div class="system">${escapeHtml(thread.settings.system_prompt)}</div>` : ''}
+      ${messages}
+    </article>`;
+  }).join('');
+
+  const title = conversations.length === 1 ? conversations[0].thread.title : `${conversations.length} conversations`;
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLES}</style>
+</head>
+<body>
+<main>${articles}
+</main>
+</body>
+</html>
+`;
+}
+
+const fileNameFor = (threads: Thread[]) => {
+  const date = new Date().toISOString().slice(0, 10);
+  if (threads.length !== 1) return `conversations-${date}`;
+  const slug = threads[0].title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '').slice(0, 60);
+  return `${slug || 'conversation'}-${date}`;
+};
+
+async function loadConversations(threadIds: string[], selections: Record<string, BranchSelection>) {
+  const conversations: ConversationData[] = [];
+  for (const threadId of threadIds) {
+    const [thread, messages] = await Promise.all([getThread(threadId), getThreadMessages(threadId)]);
+    conversations.push({ thread, messages, selection: selections[threadId] });
+  }
+  return conversations;
+}
+
+/** Writes the export into a window opened for it and brings up the print dialog. */
+async function printConversations(
+  printWindow: Window,
+  threadIds: string[],
+  selections: Record<string, BranchSelection>
+) {
+  try {
+    const html = await toHtml(await loadConversations(threadIds, selections));
+    printWindow.document.open();
+    printWindow.document.write(html);
+    printWindow.document.close();
+    printWindow.focus();
+    printWindow.print();
+  } catch (error) {
+    printWindow.close();
+    throw error;
+  }
+}
+
+/**
+ * Fetches the threads and downloads them in the given format. PDF opens the
+ * HTML export in a new window and brings up the print dialog, where it can be
+ * saved as a PDF.
+ */
+export async function exportConversations(
+  threadIds: string[],
+  format: ExportFormat,
+  selections: Record<string, BranchSelection> = {}
+) {
+  if (format === 'pdf') {
+    // Opened before any await so the browser still treats it as user-initiated;
+    // window.open returns null when a pop-up blocker stops it
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) {
+      throw new Error('The print window was blocked. Allow pop-ups for this site to export as PDF.');
+    }
+    await printConversations(printWindow, threadIds, selections);
+    return;
+  }
+
+  const conversations = await loadConversations(threadIds, selections);
+  const fileName = fileNameFor(conversations.map(conversation => conversation.thread));
+  switch (format) {
+    case 'markdown':
+      downloadFile(`${fileName}.md`, toMarkdown(conversations), 'text/markdown;charset=utf-8');
+      break;
+    case 'json':
+      downloadFile(`${fileName}.json`, JSON.stringify(toExportFile(conversations), null, 2), 'application/json');
+      break;
+    case 'html':
+      downloadFile(`${fileName}.html`, await toHtml(conversations), 'text/html;charset=utf-8');
+      break;
+  }
+}
@@ -0,0 +1,247 @@
+import {
+  appendThreadMessages,
+  createThread,
+  deleteThread,
+  type ImportSource,
+  type Thread,
+  type ThreadMessageCreate,
+} from "@/lib/api";
+
+/**
+ * Readers for the `conversations.json` file found in ChatGPT and Claude data
+ * exports. Only the text of user and assistant turns is kept; tool calls,
+ * hidden system messages and uploaded files are dropped.
+ */
+
+export type ImportApp = ImportSource['app'];
+
+export interface ImportedMessage extends ThreadMessageCreate {
+  created_at: string;
+}
+
+export interface ImportedConversation {
+  source: ImportSource;
+  title: string;
+  provider: string;
+  model_name: string;
+  created_at: string;
+  messages: ImportedMessage[];
+}
+
+export class ImportFormatError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ImportFormatError';
+  }
+}
+
+export const IMPORT_APP_LABELS: Record<ImportApp, string> = {
+  chatgpt: 'ChatGPT',
+  claude: 'Claude',
+};
+
+// Only the fields that are read; both formats carry much more
+interface ChatGptNode {
+  parent?: string | null;
+  message?: {
+    author?: { role?: string };
+    content?: { content_type?: string; parts?: unknown[]; text?: string };
+    create_time?: number | null;
+    recipient?: string;
+    metadata?: { model_slug?: string; is_visually_hidden_from_conversation?: boolean };
+  } | null;
+}
+
+interface ChatGptConversation {
+  id?: string;
+  conversation_id?: string;
+  title?: string | null;
+  create_time?: number;
+  current_node?: string;
+  default_model_slug?: string | null;
+  mapping: Record<string, ChatGptNode>;
+}
+
+interface ClaudeConversation {
+  uuid: string;
+  name?: string | null;
+  created_at: string;
+  model?: string | null;
+  chat_messages: {
+    sender?: string;
+    text?: string;
+    content?: { type?: string; text?: string }[];
+    created_at?: string;
+  }[];
+}
+
+const fromUnixSeconds = (seconds: number) => new Date(seconds * 1000).toISOString();
+
+const isObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null;
+
+const isChatGptConversation = (value: unknown): value is ChatGptConversation =>
+  isObject(value) && isObject(value.mapping);
+
+const isClaudeConversation = (value: unknown): value is ClaudeConversation =>
+  isObject(value) && typeof value.uuid === 'string' && Array.isArray(value.chat_messages);
+
+// Tool output and follow-ups split one answer into several messages; show them as one turn
+const mergeConsecutive = (messages: ImportedMessage[]) =>
+  messages.reduce<ImportedMessage[]>((merged, message) => {
+    const previous = merged[merged.length - 1];
+    if (previous && previous.role === message.role) {
+      previous.content = `${previous.content}\n\n${message.content}`;
+    } else {
+      merged.push({ ...message });
+    }
+    return merged;
+  }, []);
+
+function chatGptText(content: NonNullable<ChatGptNode['message']>['content']): string {
+  if (!content) return '';
+  if (content.content_type === 'text' || content.content_type === 'multimodal_text') {
+    return (content.parts ?? [])
+      .map(part => (typeof part === 'string' ? part : '[image]'))
+      .join('\n')
+      .trim();
+  }
+  return '';
+}
+
+function fromChatGpt(conversation: ChatGptConversation): ImportedConversation {
+  const { mapping } = conversation;
+  const createdAt = fromUnixSeconds(conversation.create_time ?? Date.now() / 1000);
+
+  // The export keeps every branch; follow the one that was on screen, back from its last node.
+  // Older exports lack current_node, so fall back to the newest message.
+  const timeOf = (id: string) => mapping[id].message?.create_time ?? 0;
+  const latestNodeId = Object.keys(mapping)
+    .reduce<string | undefined>((latest, id) => (!latest || timeOf(id) > timeOf(latest) ? id : latest), undefined);
+  const path: ChatGptNode[] = [];
+  const seen = new Set<string>();
+  let nodeId = conversation.current_node ?? latestNodeId;
+  while (nodeId && mapping[nodeId] && !seen.has(nodeId)) {
+    seen.add(nodeId);
+    path.unshift(mapping[nodeId]);
+    nodeId = mapping[nodeId].parent ?? undefined;
+  }
+
+  const messages: ImportedMessage[] = [];
+  for (const { message } of path) {
+    const role = message?.author?.role;
+    if (!message || (role !== 'user' && role !== 'assistant')) continue;
+    if (message.metadata?.is_visually_hidden_from_conversation) continue;
+    if (message.recipient && message.recipient !== 'all') continue;
+
+    const content = chatGptText(message.content);
+    if (!content) continue;
+    messages.push({
+      role,
+      content,
+      created_at: message.create_time ? fromUnixSeconds(message.create_time) : createdAt,
+      ...(role === 'assistant' && {
+        provider: 'openai',
+        model_name: message.metadata?.model_slug,
+      }),
+    });
+  }
+
+  const lastModel = [...messages].reverse().find(message => message.model_name)?.model_name;
+  return {
+    source: { app: 'chatgpt', conversation_id: conversation.conversation_id ?? conversation.id ?? createdAt },
+    title: conversation.title?.trim() || 'Untitled conversation',
+    provider: 'openai',
+    model_name: conversation.default_model_slug || lastModel || 'chatgpt',
+    created_at: createdAt,
+    messages: mergeConsecutive(messages),
+  };
+}
+
+function fromClaude(conversation: ClaudeConversation): ImportedConversation {
+  // Claude's export does not say which model answered
+  const model = conversation.model || 'claude';
+
+  const messages: ImportedMessage[] = [];
+  for (const message of conversation.chat_messages) {
+    const role = message.sender === 'human' ? 'user' : message.sender === 'assistant' ? 'assistant' : null;
+    if (!role) continue;
+
+    const blocks = (message.content ?? []).filter(block => block.type === 'text' && block.text);
+    const content = (blocks.length > 0 ? blocks.map(block => block.text).join('\n\n') : message.text ?? '').trim();
+    if (!content) continue;
+    messages.push({
+      role,
+      content,
+      created_at: message.created_at ?? conversation.created_at,
+      ...(role === 'assistant' && { provider: 'anthropic', model_name: model }),
+    });
+  }
+
+  return {
+    source: { app: 'claude', conversation_id: conversation.uuid },
+    title: conversation.name?.trim() || 'Untitled conversation',
+    provider: 'anthropic',
+    model_name: model,
+    created_at: conversation.created_at,
+    messages: mergeConsecutive(messages),
+  };
+}
+
+/**
+ * Reads a ChatGPT or Claude `conversations.json`, working out which app it came
+ * from. Conversations without any text are left out.
+ */
+export function parseConversationsExport(text: string): ImportedConversation[] {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    throw new ImportFormatError('The file is not valid JSON');
+  }
+
+  if (!Array.isArray(data)) {
+    throw new ImportFormatError('Expected a list of conversations. Choose the conversations.json file from the export.');
+  }
+
+  const conversations = data.map(item => {
+    if (isChatGptConversation(item)) return fromChatGpt(item);
+    if (isClaudeConversation(item)) return fromClaude(item);
+    throw new ImportFormatError('This does not look like a ChatGPT or Claude conversations.json');
+  });
+  return conversations.filter(conversation => conversation.messages.length > 0);
+}
+
+export const importKey = ({ app, conversation_id }: ImportSource) => `${app}:${conversation_id}`;
+
+/** Keys of conversations that already exist as threads, from an earlier import. */
+export function findDuplicates(conversations: ImportedConversation[], threads: Thread[]): Set<string> {
+  const imported = new Set(threads.filter(thread => thread.import_source).map(thread => importKey(thread.import_source!)));
+  return new Set(
+    conversations.map(conversation => importKey(conversation.source)).filter(key => imported.has(key))
+  );
+}
+
+/**
+ * Creates the thread and stores its messages as a single chain, keeping the
+ * original timestamps. If the messages cannot be stored the thread is deleted
+ * again, so a retry is not mistaken for a duplicate of an empty import.
+ */
+export async function importConversation(conversation: ImportedConversation): Promise<Thread> {
+  const thread = await createThread({
+    title: conversation.title,
+    provider: conversation.provider,
+    model_name: conversation.model_name,
+    import_source: conversation.source,
+    created_at: conversation.created_at,
+  });
+  try {
+    await appendThreadMessages(thread.id, conversation.messages);
+  } catch (error) {
+    await deleteThread(thread.id).catch(cleanupError => {
+      console.error('Failed to remove the partly imported thread:', cleanupError);
+    });
+    throw error;
+  }
+  return thread;
+}
@@ -0,0 +1,105 @@
+/**
+ * Helpers for conversations stored as a tree. Every message points at the
+ * message it answers or follows (`parentId`, null for the first turn); editing a
+ * prompt or regenerating an answer adds a sibling instead of replacing it. The
+ * visible conversation is the path obtained by following the selected child at
+ * each level.
+ */
+
+export interface TreeNode {
+  id: string;
+  parentId: string | null;
+  timestamp: Date;
+}
+
+/** Maps a parent id (or ROOT_KEY) to the id of its currently selected child. */
+export type BranchSelection = Record<string, string>;
+
+export const ROOT_KEY = '__root__';
+
+export const parentKey = (parentId: string | null) => parentId ?? ROOT_KEY;
+
+export function getChildren<T extends TreeNode>(messages: T[], parentId: string | null): T[] {
+  return messages
+    .filter(message => message.parentId === parentId)
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+}
+
+export function getSiblings<T extends TreeNode>(messages: T[], message: T): T[] {
+  return getChildren(messages, message.parentId);
+}
+
+/**
+ * Returns the messages on the selected branch, root first. Where no child has
+ * been selected the most recent one wins, so new variants show up by default.
+ */
+export function getActivePath<T extends TreeNode>(messages: T[], selection: BranchSelection): T[] {
+  const path: T[] = [];
+  let parentId: string | null = null;
+
+  // Guard against cycles from malformed data
+  const seen = new Set<string>();
+  while (true) {
+    const children = getChildren(messages, parentId);
+    if (children.length === 0) break;
+
+    const selectedId = selection[parentKey(parentId)];
+    const next = children.find(child => child.id === selectedId) ?? children[children.length - 1];
+    if (seen.has(next.id)) break;
+    seen.add(next.id);
+
+    path.push(next);
+    parentId = next.id;
+  }
+  return path;
+}
+
+/** Selects `messageId` and every ancestor, so the branch containing it becomes visible. */
+export function selectBranch<T extends TreeNode>(
+  messages: T[],
+  selection: BranchSelection,
+  messageId: string
+): BranchSelection {
+  const byId = new Map(messages.map(message => [message.id, message]));
+  const next = { ...selection };
+  let current = byId.get(messageId);
+  const seen = new Set<string>();
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    next[parentKey(current.parentId)] = current.id;
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return next;
+}
+
+/** Renames a message id everywhere it is referenced, e.g. once the server assigns the real id. */
+export function replaceMessageId<T extends TreeNode>(messages: T[], from: string, to: string): T[] {
+  return messages.map(message => {
+    if (message.id !== from && message.parentId !== from) return message;
+    return {
+      ...message,
+      id: message.id === from ? to : message.id,
+      parentId: message.parentId === from ? to : message.parentId,
+    };
+  });
+}
+
+export function replaceSelectionId(selection: BranchSelection, from: string, to: string): BranchSelection {
+  const next: BranchSelection = {};
+  for (const [key, value] of Object.entries(selection)) {
+    next[key === from ? to : key] = value === from ? to : value;
+  }
+  return next;
+}
+
+/**
+ * Servers that predate branching return a flat, ordered message list without
+ * parent ids. Chain those messages so each one follows the previous.
+ */
+export function linkLinearMessages<T extends TreeNode>(messages: T[]): T[] {
+  if (messages.some(message => message.parentId)) return messages;
+  return messages.map((message, index) => ({
+    ...message,
+    parentId: index === 0 ? null : messages[index - 1].id,
+  }));
+}
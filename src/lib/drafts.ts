@@ -0,0 +1,22 @@
+// Unsent composer text per thread. Session storage keeps drafts across thread
+// switches and reloads without leaving them behind once the tab is closed.
+const DRAFT_KEY_PREFIX = 'chatDraft:';
+const NEW_CHAT_DRAFT_KEY = 'new';
+
+const draftKey = (threadId?: string) => DRAFT_KEY_PREFIX + (threadId || NEW_CHAT_DRAFT_KEY);
+
+export const loadDraft = (threadId?: string) => sessionStorage.getItem(draftKey(threadId)) ?? '';
+
+export const saveDraft = (threadId: string | undefined, text: string) => {
+  if (text) {
+    sessionStorage.setItem(draftKey(threadId), text);
+  } else {
+    sessionStorage.removeItem(draftKey(threadId));
+  }
+};
+
+/** Moves the new chat's draft to the thread the chat just became, so text typed while it was created stays. */
+export const adoptNewChatDraft = (threadId: string) => {
+  saveDraft(threadId, loadDraft());
+  saveDraft(undefined, '');
+};
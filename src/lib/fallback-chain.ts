@@ -0,0 +1,150 @@
+import {
+  ApiError,
+  ChatStreamError,
+  type ChatStreamEvent,
+  type FallbackOrigin,
+  type FallbackReason,
+} from "@/lib/api";
+
+export interface FallbackTarget {
+  provider: string;
+  model: string;
+}
+
+export const FALLBACK_REASON_LABELS: Record<FallbackReason, string> = {
+  rate_limited: 'was rate limited',
+  timeout: 'timed out',
+  server_error: 'returned a server error',
+  network: 'could not be reached',
+};
+
+/** How long a model gets to start answering before the next one in the chain is tried. */
+export const FALLBACK_TIMEOUT_MS = 60_000;
+
+// The chain is a preference of this browser, like the selected model
+const FALLBACK_CHAIN_KEY = 'fallbackChain';
+
+export function loadFallbackChain(): FallbackTarget[] {
+  try {
+    const stored = JSON.parse(localStorage.getItem(FALLBACK_CHAIN_KEY) ?? '[]');
+    return Array.isArray(stored)
+      ? stored.filter(target => typeof target?.provider === 'string' && typeof target?.model === 'string')
+      : [];
+  } catch {
+    return [];
+  }
+}
+
+export const saveFallbackChain = (chain: FallbackTarget[]) => {
+  if (chain.length > 0) {
+    localStorage.setItem(FALLBACK_CHAIN_KEY, JSON.stringify(chain));
+  } else {
+    localStorage.removeItem(FALLBACK_CHAIN_KEY);
+  }
+};
+
+const sameTarget = (a: FallbackTarget, b: FallbackTarget) => a.provider === b.provider && a.model === b.model;
+
+/**
+ * Models to try after `primary` fails, in order. A primary that is itself in
+ * the chain continues from its position; any other model falls back to the
+ * whole chain.
+ */
+export function getFallbackTargets(chain: FallbackTarget[], primary: FallbackTarget): FallbackTarget[] {
+  const position = chain.findIndex(target => sameTarget(target, primary));
+  return chain.slice(position + 1).filter(target => !sameTarget(target, primary));
+}
+
+/**
+ * Why a failed chat request is worth retrying on another model, or null when
+ * it is not: bad requests and auth errors would fail the same way elsewhere.
+ */
+export function classifyFailure(error: unknown): FallbackReason | null {
+  if (error instanceof ApiError) {
+    if (error.status === 429) return 'rate_limited';
+    if (error.status === 408 || error.status === 504) return 'timeout';
+    if (error.status >= 500) return 'server_error';
+    return null;
+  }
+  // The backend relays provider errors inside the stream as plain text
+  if (error instanceof ChatStreamError) {
+    if (/rate.?limit|too many requests|\b429\b/i.test(error.message)) return 'rate_limited';
+    if (/timed? ?out|timeout/i.test(error.message)) return 'timeout';
+    if (/\b5\d\d\b|overloaded|unavailable|internal server error/i.test(error.message)) return 'server_error';
+    return null;
+  }
+  // fetch rejects with a TypeError when the network request itself fails
+  if (error instanceof TypeError) return 'network';
+  return null;
+}
+
+export type FallbackStreamEvent =
+  | Exclude<ChatStreamEvent, { type: 'error' }>
+  /** `from` failed before answering and `target` is tried next. */
+  | { type: 'fallback'; from: FallbackOrigin; target: FallbackTarget };
+
+export interface FallbackAttempt {
+  target: FallbackTarget;
+  /** Position in the targets; 0 for the chosen model. */
+  index: number;
+  /** The model this attempt replaces, for the server's records. */
+  fallbackFrom?: FallbackOrigin;
+}
+
+/**
+ * Streams an answer from `targets[0]`, moving down the list when a model fails
+ * in a way the next one might not, or does not start answering within
+ * FALLBACK_TIMEOUT_MS. Fallbacks `canTry` turns down are passed over. Once
+ * text has streamed the answer stays with that model. Aborting `signal` ends
+ * the run; errors from the last model tried are rethrown.
+ */
+export async function* streamWithFallbacks(
+  targets: FallbackTarget[],
+  startAttempt: (attempt: FallbackAttempt, signal: AbortSignal) => AsyncIterable<ChatStreamEvent>,
+  signal: AbortSignal,
+  canTry: (target: FallbackTarget) => boolean = () => true,
+): AsyncGenerator<FallbackStreamEvent> {
+  let fallbackFrom: FallbackOrigin | undefined;
+  let answered = false;
+  const nextAfter = (index: number) => targets.findIndex((target, i) => i > index && canTry(target));
+
+  for (let index = 0; ; ) {
+    const target = targets[index];
+    // Each attempt has its own signal so a slow model can be given up on; `signal` still ends them all
+    const attemptController = new AbortController();
+    const stopAttempt = () => attemptController.abort();
+    signal.addEventListener('abort', stopAttempt);
+    let timedOut = false;
+    const timer = nextAfter(index) !== -1
+      ? setTimeout(() => {
+        timedOut = true;
+        attemptController.abort();
+      }, FALLBACK_TIMEOUT_MS)
+      : undefined;
+
+    try {
+      for await (const event of startAttempt({ target, index, fallbackFrom }, attemptController.signal)) {
+        // Key and usage reports can arrive before the model answers; only text or the end count as a start
+        if (event.type === 'delta' || event.type === 'done') clearTimeout(timer);
+        if (event.type === 'error') throw new ChatStreamError(event.message);
+        if (event.type === 'delta') answered = true;
+        yield event;
+      }
+      return;
+    } catch (error) {
+      if (signal.aborted) throw error;
+      const reason = timedOut ? 'timeout' : classifyFailure(error);
+      // Once text has streamed, switching models would splice two answers together
+      const next = reason && !answered ? nextAfter(index) : -1;
+      if (next === -1) throw error;
+
+      console.warn(`${target.provider}/${target.model} failed (${reason}), trying the next fallback:`, error);
+      fallbackFrom = { provider: target.provider, model_name: target.model, reason };
+      yield { type: 'fallback', from: fallbackFrom, target: targets[next] };
+      index = next;
+    } finally {
+      clearTimeout(timer);
+      signal.removeEventListener('abort', stopAttempt);
+    }
+  }
+}
@@ -0,0 +1,152 @@
+import type { GenerationSettings } from "@/lib/api";
+
+export type SettingKey = keyof GenerationSettings;
+export type NumericSettingKey = 'temperature' | 'top_p' | 'max_tokens' | 'presence_penalty' | 'frequency_penalty';
+
+export interface NumericSettingSpec {
+  key: NumericSettingKey;
+  label: string;
+  description: string;
+  min: number;
+  max: number;
+  step: number;
+  integer?: boolean;
+}
+
+interface ProviderSupport {
+  supported: SettingKey[];
+  limits?: Partial<Record<NumericSettingKey, { min?: number; max?: number }>>;
+  maxStopSequences?: number;
+}
+
+const NUMERIC_SETTINGS: NumericSettingSpec[] = [
+  { key: 'temperature', label: 'Temperature', description: 'Higher values make answers more varied', min: 0, max: 2, step: 0.1 },
+  { key: 'top_p', label: 'Top P', description: 'Sample only from the most likely tokens making up this probability mass', min: 0, max: 1, step: 0.05 },
+  { key: 'max_tokens', label: 'Max tokens', description: 'Upper bound on the length of each answer', min: 1, max: 200000, step: 1, integer: true },
+  { key: 'presence_penalty', label: 'Presence penalty', description: 'Encourages moving on to new topics', min: -2, max: 2, step: 0.1 },
+  { key: 'frequency_penalty', label: 'Frequency penalty', description: 'Discourages repeating the same words', min: -2, max: 2, step: 0.1 },
+];
+
+const ALL_SETTINGS: SettingKey[] = [
+  'system_prompt',
+  'temperature',
+  'top_p',
+  'max_tokens',
+  'stop',
+  'presence_penalty',
+  'frequency_penalty',
+];
+
+const WITHOUT_PENALTIES = ALL_SETTINGS.filter(key => key !== 'presence_penalty' && key !== 'frequency_penalty');
+
+// Providers that reject or ignore some parameters. Anything not listed is
+// assumed to take the full OpenAI-style set.
+const PROVIDER_SUPPORT: Record<string, ProviderSupport> = {
+  openai: { supported: ALL_SETTINGS, maxStopSequences: 4 },
+  azure: { supported: ALL_SETTINGS, maxStopSequences: 4 },
+  anthropic: { supported: WITHOUT_PENALTIES, limits: { temperature: { max: 1 } } },
+  bedrock: { supported: WITHOUT_PENALTIES, limits: { temperature: { max: 1 } } },
+  google: { supported: WITHOUT_PENALTIES, maxStopSequences: 5 },
+  vertex_ai: { supported: WITHOUT_PENALTIES, maxStopSequences: 5 },
+  mistral: { supported: ALL_SETTINGS, limits: { temperature: { max: 1.5 } } },
+  cohere: {
+    supported: ALL_SETTINGS,
+    limits: { temperature: { max: 1 }, presence_penalty: { min: 0, max: 1 }, frequency_penalty: { min: 0, max: 1 } },
+    maxStopSequences: 5,
+  },
+};
+
+const isSet = (value: GenerationSettings[SettingKey]) =>
+  value !== undefined && value !== '' && !(Array.isArray(value) && value.length === 0);
+
+const supportFor = (provider: string): ProviderSupport =>
+  PROVIDER_SUPPORT[provider] || { supported: ALL_SETTINGS };
+
+export const isSettingSupported = (provider: string, key: SettingKey) =>
+  supportFor(provider).supported.includes(key);
+
+export const hasUnsupportedSettings = (provider: string) =>
+  supportFor(provider).supported.length < ALL_SETTINGS.length;
+
+export const getMaxStopSequences = (provider: string) => supportFor(provider).maxStopSequences;
+
+/** Numeric parameters the provider accepts, with its own ranges applied. */
+export const getNumericSettings = (provider: string): NumericSettingSpec[] => {
+  const { limits = {} } = supportFor(provider);
+  return NUMERIC_SETTINGS
+    .filter(spec => isSettingSupported(provider, spec.key))
+    .map(spec => ({ ...spec, ...limits[spec.key] }));
+};
+
+/** Returns a message per invalid field; an empty object means the settings can be used as-is. */
+export const validateSettings = (settings: GenerationSettings, provider: string) => {
+  const errors: Partial<Record<SettingKey, string>> = {};
+
+  for (const spec of getNumericSettings(provider)) {
+    const value = settings[spec.key];
+    if (value === undefined) continue;
+    if (Number.isNaN(value)) {
+      errors[spec.key] = 'Enter a number';
+    } else if (spec.integer && !Number.isInteger(value)) {
+      errors[spec.key] = 'Must be a whole number';
+    } else if (value < spec.min || value > spec.max) {
+      errors[spec.key] = `Must be between ${spec.min} and ${spec.max}`;
+    }
+  }
+
+  const maxStop = getMaxStopSequences(provider);
+  if (isSettingSupported(provider, 'stop') && maxStop && (settings.stop?.length ?? 0) > maxStop) {
+    errors.stop = `At most ${maxStop} stop sequences`;
+  }
+
+  return errors;
+};
+
+/**
+ * Drops parameters the provider does not support and anything left unset, so
+ * the request only carries values the provider will accept.
+ */
+export const settingsForProvider = (settings: GenerationSettings, provider: string): GenerationSettings | undefined => {
+  const result: GenerationSettings = {};
+  for (const key of ALL_SETTINGS) {
+    if (!isSettingSupported(provider, key)) continue;
+    if (!isSet(settings[key])) continue;
+    Object.assign(result, { [key]: settings[key] });
+  }
+  return Object.keys(result).length > 0 ? result : undefined;
+};
+
+export const countCustomSettings = (settings: GenerationSettings) =>
+  ALL_SETTINGS.filter(key => isSet(settings[key])).length;
+
+// Forms edit values as text so an empty field means "use the provider default"
+export interface SettingsDraft {
+  systemPrompt: string;
+  stop: string;
+  numbers: Record<NumericSettingKey, string>;
+}
+
+export const toSettingsDraft = (settings: GenerationSettings): SettingsDraft => ({
+  systemPrompt: settings.system_prompt ?? '',
+  stop: (settings.stop ?? []).join('\n'),
+  numbers: {
+    temperature: settings.temperature?.toString() ?? '',
+    top_p: settings.top_p?.toString() ?? '',
+    max_tokens: settings.max_tokens?.toString() ?? '',
+    presence_penalty: settings.presence_penalty?.toString() ?? '',
+    frequency_penalty: settings.frequency_penalty?.toString() ?? '',
+  },
+});
+
+// Fields hidden for the current provider stay in the draft, so their values
+// survive a save and apply again after switching back
+export const fromSettingsDraft = (draft: SettingsDraft): GenerationSettings => {
+  const result: GenerationSettings = {};
+  result.system_prompt = draft.systemPrompt.trim() ? draft.systemPrompt : undefined;
+  const stop = draft.stop.split('\n').filter(sequence => sequence.length > 0);
+  result.stop = stop.length > 0 ? stop : undefined;
+  for (const [key, text] of Object.entries(draft.numbers) as [NumericSettingKey, string][]) {
+    result[key] = text.trim() === '' ? undefined : Number(text);
+  }
+  return result;
+};
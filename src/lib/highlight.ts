@@ -0,0 +1,23 @@
+export interface HighlightSegment {
+  text: string;
+  match: boolean;
+}
+
+const escapeRegExp = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/** Splits `text` into segments, flagging case-insensitive occurrences of any word in `query`. */
+export function splitHighlights(text: string, query: string): HighlightSegment[] {
+  const terms = query.trim().split(/\s+/).filter(Boolean).map(escapeRegExp);
+  if (terms.length === 0) return [{ text, match: false }];
+
+  // Longest first so overlapping terms prefer the fuller match
+  terms.sort((a, b) => b.length - a.length);
+  const alternation = terms.join('|');
+  const splitter = new RegExp(`(${alternation})`, 'gi');
+  const isTerm = new RegExp(`^(?:${alternation})$`, 'i');
+
+  return text
+    .split(splitter)
+    .filter(part => part !== '')
+    .map(part => ({ text: part, match: isTerm.test(part) }));
+}
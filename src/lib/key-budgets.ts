@@ -0,0 +1,161 @@
+import { startOfMonth } from "date-fns";
+import type { ApiKey, ApiKeyLimits, BudgetExhaustedAction, UsageRecord } from "@/lib/api";
+import { estimateCost, formatCost } from "@/lib/token-usage";
+import { toDateKey } from "@/lib/usage-stats";
+
+export const DEFAULT_BUDGET_THRESHOLDS = [50, 80, 100];
+
+export const BUDGET_ACTION_LABELS: Record<BudgetExhaustedAction, string> = {
+  confirm: 'Ask before sending',
+  block: 'Block sending',
+};
+
+export class KeyLimitsError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'KeyLimitsError';
+  }
+}
+
+export interface KeyBudgetStatus {
+  spend: number;
+  budget: number;
+  /** Share of the budget spent so far, in percent. */
+  percent: number;
+  /** Highest alert threshold reached, or null while below the lowest one. */
+  threshold: number | null;
+  exhausted: boolean;
+}
+
+/** The month so far as YYYY-MM-DD dates, for `getUsage`. */
+export const currentMonthRange = (now = new Date()) => ({
+  start: toDateKey(startOfMonth(now)),
+  end: toDateKey(now),
+});
+
+/** Estimated spend per key id. Usage on models without a known price counts as free. */
+export function getSpendByKey(records: UsageRecord[]): Record<string, number> {
+  const spend: Record<string, number> = {};
+  for (const record of records) {
+    if (!record.api_key_id) continue;
+    const cost = estimateCost(record.prompt_tokens, record.completion_tokens, record.model_name) ?? 0;
+    spend[record.api_key_id] = (spend[record.api_key_id] ?? 0) + cost;
+  }
+  return spend;
+}
+
+/** Null for keys without a monthly budget. */
+export function getBudgetStatus(key: ApiKey, spend: number): KeyBudgetStatus | null {
+  const budget = key.monthly_budget_usd;
+  if (!budget || budget <= 0) return null;
+
+  const percent = (spend / budget) * 100;
+  const thresholds = key.budget_alert_thresholds?.length ? key.budget_alert_thresholds : DEFAULT_BUDGET_THRESHOLDS;
+  const reached = thresholds.filter(threshold => percent >= threshold);
+  return {
+    spend,
+    budget,
+    percent,
+    threshold: reached.length > 0 ? Math.max(...reached) : null,
+    exhausted: spend >= budget,
+  };
+}
+
+// Send times per key over the last minute. This only covers the current tab;
+// the server applies the same cap across everyone sharing the key.
+const RATE_WINDOW_MS = 60_000;
+const recentRequests = new Map<string, number[]>();
+
+const requestsInWindow = (keyId: string, now: number) => {
+  const recent = (recentRequests.get(keyId) ?? []).filter(time => now - time < RATE_WINDOW_MS);
+  recentRequests.set(keyId, recent);
+  return recent;
+};
+
+/** Milliseconds until the key's rate cap allows another request; 0 when it does now. */
+export function getRateLimitDelay(key: ApiKey, now = Date.now()): number {
+  const cap = key.rate_limit_per_minute;
+  if (!cap || cap <= 0) return 0;
+  const recent = requestsInWindow(key.id, now);
+  if (recent.length < cap) return 0;
+  return recent[recent.length - cap] + RATE_WINDOW_MS - now;
+}
+
+export function recordKeyRequest(keyId: string, now = Date.now()) {
+  recentRequests.set(keyId, [...requestsInWindow(keyId, now), now]);
+}
+
+export type KeyLimitCheck =
+  | { status: 'ok' }
+  /** The budget is spent and the key asks before sending more. */
+  | { status: 'confirm'; budget: KeyBudgetStatus }
+  | { status: 'blocked'; title: string; description: string };
+
+/**
+ * Whether a request may go out on `key` now, given its spend this month. A
+ * spent budget that was already confirmed only leaves the rate cap to check.
+ * Call `recordKeyRequest` once the request is actually sent.
+ */
+export function checkKeyLimits(key: ApiKey, spend: number, budgetConfirmed = false): KeyLimitCheck {
+  const budget = getBudgetStatus(key, spend);
+  if (budget?.exhausted && !budgetConfirmed) {
+    if (key.on_budget_exhausted !== 'block') return { status: 'confirm', budget };
+    return {
+      status: 'blocked',
+      title: 'Monthly budget spent',
+      description: `${key.key_name} has used its ${formatCost(budget.budget)} budget for this month. Raise the budget in API keys or pick another model.`,
+    };
+  }
+
+  const wait = getRateLimitDelay(key);
+  if (wait > 0) {
+    return {
+      status: 'blocked',
+      title: 'Rate cap reached',
+      description: `${key.key_name} allows ${key.rate_limit_per_minute} requests per minute. Try again in ${Math.ceil(wait / 1000)}s.`,
+    };
+  }
+  return { status: 'ok' };
+}
+
+/** Limits as edited in a form: free text, so half-typed values survive. */
+export interface KeyLimitsDraft {
+  budget: string;
+  thresholds: string;
+  onExhausted: BudgetExhaustedAction;
+  rateLimit: string;
+}
+
+export const toLimitsDraft = (limits: ApiKeyLimits = {}): KeyLimitsDraft => ({
+  budget: limits.monthly_budget_usd ? String(limits.monthly_budget_usd) : '',
+  thresholds: (limits.budget_alert_thresholds?.length ? limits.budget_alert_thresholds : DEFAULT_BUDGET_THRESHOLDS).join(', '),
+  onExhausted: limits.on_budget_exhausted ?? 'confirm',
+  rateLimit: limits.rate_limit_per_minute ? String(limits.rate_limit_per_minute) : '',
+});
+
+/** Empty fields clear the limit. Throws KeyLimitsError for values that are not valid. */
+export function parseLimitsDraft(draft: KeyLimitsDraft): ApiKeyLimits {
+  const budget = draft.budget.trim() ? Number(draft.budget) : null;
+  if (budget !== null && (!Number.isFinite(budget) || budget <= 0)) {
+    throw new KeyLimitsError('The monthly budget must be a positive amount in dollars');
+  }
+
+  const rateLimit = draft.rateLimit.trim() ? Number(draft.rateLimit) : null;
+  if (rateLimit !== null && (!Number.isInteger(rateLimit) || rateLimit <= 0)) {
+    throw new KeyLimitsError('The rate cap must be a whole number of requests per minute');
+  }
+
+  const thresholds = draft.thresholds.split(',').map(part => part.trim().replace(/%$/, '')).filter(Boolean).map(Number);
+  if (thresholds.some(threshold => !Number.isFinite(threshold) || threshold <= 0 || threshold > 100)) {
+    throw new KeyLimitsError('Alert thresholds must be percentages between 1 and 100, separated by commas');
+  }
+
+  return {
+    monthly_budget_usd: budget,
+    budget_alert_thresholds: thresholds.length > 0
+      ? [...new Set(thresholds)].sort((a, b) => a - b)
+      : DEFAULT_BUDGET_THRESHOLDS,
+    on_budget_exhausted: draft.onExhausted,
+    rate_limit_per_minute: rateLimit,
+  };
+}
@@ -0,0 +1,56 @@
+import type { ApiKey, ApiKeyTestErrorCode, ApiKeyTestResult } from "@/lib/api";
+
+export type KeyHealth = 'verified' | 'failing' | 'untested' | 'inactive';
+
+/** A short name for each failure and what the user can do about it. */
+export const KEY_TEST_ERRORS: Record<ApiKeyTestErrorCode, { label: string; hint: string }> = {
+  invalid_key: {
+    label: 'Invalid key',
+    hint: 'The provider rejected this key. Check it was copied in full and has not been revoked.',
+  },
+  insufficient_quota: {
+    label: 'No quota',
+    hint: 'The key works but its account has no credit or quota left. Top up billing with the provider.',
+  },
+  model_not_permitted: {
+    label: 'Model not permitted',
+    hint: "This key's account cannot use the selected model. Pick another model or request access.",
+  },
+  region_blocked: {
+    label: 'Region blocked',
+    hint: 'The provider does not serve requests from the region the server runs in.',
+  },
+  rate_limited: {
+    label: 'Rate limited',
+    hint: 'The provider is throttling this key. Wait a minute and test again.',
+  },
+  provider_unavailable: {
+    label: 'Provider unavailable',
+    hint: 'The provider could not be reached or returned a server error. Try again later.',
+  },
+  unknown: {
+    label: 'Test failed',
+    hint: 'The provider returned an unexpected error.',
+  },
+};
+
+export function getKeyHealth(key: ApiKey): KeyHealth {
+  if (!key.is_active) return 'inactive';
+  if (key.last_test) return key.last_test.ok ? 'verified' : 'failing';
+  return key.last_verified_at ? 'verified' : 'untested';
+}
+
+/** The key as the server stores it after the test. */
+export const applyTestResult = (key: ApiKey, result: ApiKeyTestResult): ApiKey => ({
+  ...key,
+  last_test: result,
+  last_verified_at: result.ok ? result.checked_at : key.last_verified_at,
+});
+
+/** One line for a failed test: the classified reason, then the provider's message if any. */
+export function describeTestFailure(result: ApiKeyTestResult): { label: string; detail: string } {
+  const { label, hint } = KEY_TEST_ERRORS[result.error_code ?? 'unknown'] ?? KEY_TEST_ERRORS.unknown;
+  return { label, detail: result.message ? `${hint} Provider said: ${result.message}` : hint };
+}
+
+export const formatLatency = (ms: number) => ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
@@ -0,0 +1,41 @@
+import type { ApiKey } from "@/lib/api";
+
+/** A provider's keys, active or not, in the order chats try them. */
+export function getFailoverOrder(keys: ApiKey[], provider: string): ApiKey[] {
+  return keys
+    .filter(key => key.provider === provider)
+    .sort((a, b) =>
+      (a.failover_priority ?? Number.MAX_SAFE_INTEGER) - (b.failover_priority ?? Number.MAX_SAFE_INTEGER)
+      || a.created_at.localeCompare(b.created_at)
+    );
+}
+
+/** The first active key in the provider's failover order. */
+export const getDefaultKey = (keys: ApiKey[], provider: string) =>
+  getFailoverOrder(keys, provider).find(key => key.is_active);
+
+/**
+ * The key a chat tries first: the thread's pinned key while it is active and
+ * belongs to the provider, otherwise the provider's default.
+ */
+export function findKeyForChat(keys: ApiKey[], provider: string, pinnedKeyId?: string | null): ApiKey | undefined {
+  const pinned = pinnedKeyId ? keys.find(key => key.id === pinnedKeyId) : undefined;
+  if (pinned && pinned.is_active && pinned.provider === provider) return pinned;
+  return getDefaultKey(keys, provider);
+}
+
+/** Moves a key one place up or down in its provider's order; returns the new id order. */
+export function moveInFailoverOrder(keys: ApiKey[], keyId: string, direction: -1 | 1): string[] {
+  const key = keys.find(k => k.id === keyId);
+  if (!key) return [];
+  const ids = getFailoverOrder(keys, key.provider).map(k => k.id);
+  const index = ids.indexOf(keyId);
+  const target = index + direction;
+  if (target < 0 || target >= ids.length) return ids;
+  [ids[index], ids[target]] = [ids[target], ids[index]];
+  return ids;
+}
+
+/** Applies an id order to the keys as `failover_priority`. */
+export const withFailoverOrder = (keys: ApiKey[], keyIds: string[]): ApiKey[] =>
+  keys.map(key => keyIds.includes(key.id) ? { ...key, failover_priority: keyIds.indexOf(key.id) } : key);
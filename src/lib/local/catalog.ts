@@ -0,0 +1,78 @@
+import type { ProvidersAndModels } from "@/lib/api/types";
+
+/** Wire format a provider speaks; most hosted models use OpenAI's. */
+export type ProviderApi = 'openai' | 'anthropic' | 'gemini';
+
+export interface LocalProvider {
+  id: string;
+  name: string;
+  api: ProviderApi;
+  baseUrl: string;
+  models: string[];
+  /** Models that accept images. */
+  visionModels: string[];
+}
+
+// Providers whose APIs can be called from a browser page. Without the server
+// there is no catalog to fetch, so the list is kept here.
+export const LOCAL_PROVIDERS: LocalProvider[] = [
+  {
+    id: 'openai',
+    name: 'OpenAI',
+    api: 'openai',
+    baseUrl: 'https://api.openai.com/v1',
+    models: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini', 'gpt-4'],
+    visionModels: ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'gpt-4.1-mini'],
+  },
+  {
+    id: 'anthropic',
+    name: 'Anthropic',
+    api: 'anthropic',
+    baseUrl: 'https://api.anthropic.com/v1',
+    models: ['claude-sonnet-4-20250514', 'claude-opus-4-20250514', 'claude-3-5-haiku-20241022'],
+    visionModels: ['claude-sonnet-4-20250514', 'claude-opus-4-20250514'],
+  },
+  {
+    id: 'google',
+    name: 'Google Gemini',
+    api: 'gemini',
+    baseUrl: 'https://generativelanguage.googleapis.com/v1beta',
+    models: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.0-flash'],
+    visionModels: ['gemini-2.5-pro', 'gemini-2.5-flash', 'gemini-2.0-flash'],
+  },
+  {
+    id: 'groq',
+    name: 'Groq',
+    api: 'openai',
+    baseUrl: 'https://api.groq.com/openai/v1',
+    models: ['llama-3.3-70b-versatile', 'llama-3.1-8b-instant'],
+    visionModels: [],
+  },
+  {
+    id: 'mistral',
+    name: 'Mistral',
+    api: 'openai',
+    baseUrl: 'https://api.mistral.ai/v1',
+    models: ['mistral-large-latest', 'mistral-small-latest'],
+    visionModels: ['mistral-small-latest'],
+  },
+  {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    api: 'openai',
+    baseUrl: 'https://openrouter.ai/api/v1',
+    models: ['openai/gpt-4o', 'anthropic/claude-sonnet-4', 'google/gemini-2.5-flash', 'meta-llama/llama-3.3-70b-instruct'],
+    visionModels: ['openai/gpt-4o', 'anthropic/claude-sonnet-4', 'google/gemini-2.5-flash'],
+  },
+];
+
+export const getLocalProvider = (providerId: string) => LOCAL_PROVIDERS.find(provider => provider.id === providerId);
+
+export const getLocalCatalog = (): ProvidersAndModels => ({
+  providers: LOCAL_PROVIDERS.map(({ id, name }) => ({ id, name })),
+  models_by_provider: Object.fromEntries(LOCAL_PROVIDERS.map(provider => [provider.id, provider.models])),
+  model_capabilities: Object.fromEntries(LOCAL_PROVIDERS.map(provider => [
+    provider.id,
+    Object.fromEntries(provider.visionModels.map(model => [model, { vision: true }])),
+  ])),
+});
@@ -0,0 +1,81 @@
+const DB_NAME = 'byok-chat-local';
+const DB_VERSION = 1;
+
+export type StoreName = 'meta' | 'keys' | 'threads' | 'messages' | 'assistants' | 'prompts';
+
+const STORE_NAMES: StoreName[] = ['meta', 'keys', 'threads', 'messages', 'assistants', 'prompts'];
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb(): Promise<IDBDatabase> {
+  dbPromise ??= new Promise((resolve, reject) => {
+    const open = indexedDB.open(DB_NAME, DB_VERSION);
+    open.onupgradeneeded = () => {
+      const db = open.result;
+      db.createObjectStore('meta');
+      db.createObjectStore('keys', { keyPath: 'id' });
+      db.createObjectStore('threads', { keyPath: 'id' });
+      db.createObjectStore('messages', { keyPath: 'id' }).createIndex('thread_id', 'thread_id');
+      db.createObjectStore('assistants', { keyPath: 'id' });
+      db.createObjectStore('prompts', { keyPath: 'id' });
+    };
+    open.onsuccess = () => resolve(open.result);
+    open.onerror = () => {
+      dbPromise = null;
+      reject(open.error);
+    };
+  });
+  return dbPromise;
+}
+
+const settle = <T>(request: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+async function objectStore(name: StoreName, mode: IDBTransactionMode = 'readonly') {
+  return (await openDb()).transaction(name, mode).objectStore(name);
+}
+
+export async function getAll<T>(store: StoreName): Promise<T[]> {
+  return settle((await objectStore(store)).getAll()) as Promise<T[]>;
+}
+
+export async function getAllByThread<T>(threadId: string): Promise<T[]> {
+  return settle((await objectStore('messages')).index('thread_id').getAll(threadId)) as Promise<T[]>;
+}
+
+export async function getRecord<T>(store: StoreName, key: string): Promise<T | undefined> {
+  return settle((await objectStore(store)).get(key)) as Promise<T | undefined>;
+}
+
+/** `key` is only needed for the meta store, whose records carry no id. */
+export async function putRecord<T>(store: StoreName, value: T, key?: string): Promise<void> {
+  await settle((await objectStore(store, 'readwrite')).put(value, key));
+}
+
+export async function deleteRecord(store: StoreName, key: string): Promise<void> {
+  await settle((await objectStore(store, 'readwrite')).delete(key));
+}
+
+/** Removes a thread and all of its messages in one transaction. */
+export async function deleteThreadRecords(threadId: string): Promise<void> {
+  const transaction = (await openDb()).transaction(['threads', 'messages'], 'readwrite');
+  transaction.objectStore('threads').delete(threadId);
+  const messages = transaction.objectStore('messages');
+  const ids = await settle(messages.index('thread_id').getAllKeys(threadId));
+  ids.forEach(id => messages.delete(id));
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
+
+export async function clearAll(): Promise<void> {
+  const transaction = (await openDb()).transaction(STORE_NAMES, 'readwrite');
+  STORE_NAMES.forEach(store => transaction.objectStore(store).clear());
+  await new Promise<void>((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+  });
+}
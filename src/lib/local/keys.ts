@@ -0,0 +1,138 @@
+import { ApiError } from "@/lib/api/client";
+import type {
+  ApiKey,
+  ApiKeyCreate,
+  ApiKeyRotation,
+  ApiKeyTestErrorCode,
+  ApiKeyTestResult,
+  ApiKeyUpdate,
+} from "@/lib/api/types";
+import { applyTestResult } from "@/lib/key-health";
+import { getFailoverOrder, withFailoverOrder } from "@/lib/key-selection";
+import { getLocalProvider } from "./catalog";
+import { deleteRecord, getAll, getRecord, putRecord } from "./db";
+import { PROVIDER_ADAPTERS } from "./provider-adapters";
+import { decryptSecret, encryptSecret, type EncryptedValue } from "./vault";
+
+/** A key as stored in IndexedDB: the secret never leaves this module unencrypted. */
+interface LocalApiKey extends ApiKey {
+  secret: EncryptedValue;
+}
+
+const toApiKey = ({ secret: _secret, ...key }: LocalApiKey): ApiKey => key;
+
+async function getKeyRecord(keyId: string): Promise<LocalApiKey> {
+  const record = await getRecord<LocalApiKey>('keys', keyId);
+  if (!record) throw new ApiError(404, 'API key not found');
+  return record;
+}
+
+function requireProvider(providerId: string) {
+  const provider = getLocalProvider(providerId);
+  if (!provider) throw new ApiError(400, `${providerId} cannot be called directly from the browser`);
+  return provider;
+}
+
+export const listApiKeys = async () => (await getAll<LocalApiKey>('keys')).map(toApiKey);
+
+/** The decrypted secret, for calling the provider. */
+export const getKeySecret = async (keyId: string) => decryptSecret((await getKeyRecord(keyId)).secret);
+
+export async function createApiKey({ api_key, ...payload }: ApiKeyCreate): Promise<ApiKey> {
+  requireProvider(payload.provider);
+  const keys = await getAll<LocalApiKey>('keys');
+  const record: LocalApiKey = {
+    ...payload,
+    id: crypto.randomUUID(),
+    is_active: true,
+    created_at: new Date().toISOString(),
+    failover_priority: getFailoverOrder(keys, payload.provider).length,
+    last_verified_at: null,
+    last_test: null,
+    secret: await encryptSecret(api_key),
+  };
+  await putRecord('keys', record);
+  return toApiKey(record);
+}
+
+export async function updateApiKey(keyId: string, payload: ApiKeyUpdate): Promise<ApiKey> {
+  const record = { ...await getKeyRecord(keyId), ...payload };
+  await putRecord('keys', record);
+  return toApiKey(record);
+}
+
+export const deleteApiKey = (keyId: string) => deleteRecord('keys', keyId);
+
+export async function reorderApiKeys(provider: string, keyIds: string[]): Promise<ApiKey[]> {
+  const keys = withFailoverOrder(
+    (await getAll<LocalApiKey>('keys')).filter(key => key.provider === provider),
+    keyIds
+  ) as LocalApiKey[];
+  await Promise.all(keys.map(key => putRecord('keys', key)));
+  return keys.map(toApiKey);
+}
+
+// The server classifies test failures itself; here the provider's raw error has to be read
+function classifyTestError(error: unknown): ApiKeyTestErrorCode {
+  if (!(error instanceof ApiError)) {
+    // fetch rejects with a TypeError when the request is blocked (CORS) or never arrives
+    return error instanceof TypeError ? 'provider_unavailable' : 'unknown';
+  }
+  if (/quota|credit|billing|balance/i.test(error.message)) return 'insufficient_quota';
+  if (/location|region|country/i.test(error.message)) return 'region_blocked';
+  if (error.status === 401) return 'invalid_key';
+  if (error.status === 402) return 'insufficient_quota';
+  if (error.status === 403 || error.status === 404) return 'model_not_permitted';
+  if (error.status === 429) return 'rate_limited';
+  if (error.status >= 500) return 'provider_unavailable';
+  if (/api.?key|unauthori[sz]ed|authentication/i.test(error.message)) return 'invalid_key';
+  return 'unknown';
+}
+
+/** Asks the provider for a one-token answer and stops reading as soon as it starts. */
+async function runTest(providerId: string, model: string, apiKey: string): Promise<ApiKeyTestResult> {
+  const provider = requireProvider(providerId);
+  const controller = new AbortController();
+  const started = performance.now();
+  try {
+    const stream = PROVIDER_ADAPTERS[provider.api].stream({
+      provider,
+      apiKey,
+      model,
+      messages: [{ role: 'user', content: 'Hi' }],
+      settings: { max_tokens: 1 },
+      signal: controller.signal,
+    });
+    await stream.next();
+    const latency = performance.now() - started;
+    await stream.return(undefined);
+    return { ok: true, latency_ms: Math.round(latency), checked_at: new Date().toISOString() };
+  } catch (error) {
+    return {
+      ok: false,
+      error_code: classifyTestError(error),
+      message: error instanceof Error ? error.message : null,
+      checked_at: new Date().toISOString(),
+    };
+  } finally {
+    controller.abort();
+  }
+}
+
+export async function testApiKey(keyId: string): Promise<ApiKeyTestResult> {
+  const record = await getKeyRecord(keyId);
+  const result = await runTest(record.provider, record.model_name, await decryptSecret(record.secret));
+  await putRecord('keys', { ...applyTestResult(record, result), secret: record.secret });
+  return result;
+}
+
+/** Keeps the old secret when the new one fails its test, like the server does. */
+export async function rotateApiKey(keyId: string, apiKey: string): Promise<ApiKeyRotation> {
+  const record = await getKeyRecord(keyId);
+  const test = await runTest(record.provider, record.model_name, apiKey);
+  if (!test.ok) return { key: toApiKey(record), test };
+
+  const rotated: LocalApiKey = { ...applyTestResult(record, test), secret: await encryptSecret(apiKey) };
+  await putRecord('keys', rotated);
+  return { key: toApiKey(rotated), test };
+}
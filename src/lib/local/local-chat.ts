@@ -0,0 +1,157 @@
+import { ApiError } from "@/lib/api/client";
+import type { ChatStreamEvent } from "@/lib/api/chat-stream";
+import type { ApiKey, ChatRequest, ThreadMessage, TokenUsage } from "@/lib/api/types";
+import { getFailoverOrder } from "@/lib/key-selection";
+import { getLocalProvider } from "./catalog";
+import { getKeySecret, listApiKeys } from "./keys";
+import { PROVIDER_ADAPTERS, type ProviderMessage } from "./provider-adapters";
+import { addThreadMessage, createThread, getThread, getThreadMessages } from "./store";
+
+const TITLE_LENGTH = 50;
+
+// Failures that another key of the same provider may not have
+const KEY_FAILURE_STATUSES = [401, 402, 403, 429];
+
+const isKeyFailure = (error: unknown) => error instanceof ApiError && KEY_FAILURE_STATUSES.includes(error.status);
+
+/** Messages from the root of the thread down to `messageId`. */
+function pathTo(messages: ThreadMessage[], messageId: string | null | undefined): ThreadMessage[] {
+  if (!messageId) return [];
+  const byId = new Map(messages.map(message => [message.id, message]));
+  let current = byId.get(messageId);
+  if (!current) throw new ApiError(404, 'The message this reply follows is not stored in the conversation');
+  const path: ThreadMessage[] = [];
+  while (current) {
+    path.unshift(current);
+    current = current.parent_id ? byId.get(current.parent_id) : undefined;
+  }
+  return path;
+}
+
+/** The pinned key first, then the provider's other active keys in failover order. */
+function keysToTry(keys: ApiKey[], provider: string, pinnedKeyId?: string | null): ApiKey[] {
+  const active = getFailoverOrder(keys, provider).filter(key => key.is_active);
+  const pinned = active.find(key => key.id === pinnedKeyId);
+  return pinned ? [pinned, ...active.filter(key => key !== pinned)] : active;
+}
+
+/**
+ * Answers a chat request by calling the provider from the browser and stores
+ * the exchange locally. Yields the same events as the server's `/chat` stream;
+ * like the server, the prompt is stored before the provider is called and an
+ * answer stopped part way is kept.
+ */
+export async function* streamLocalChat(payload: ChatRequest, signal?: AbortSignal): AsyncGenerator<ChatStreamEvent> {
+  const provider = getLocalProvider(payload.provider);
+  if (!provider) throw new ApiError(400, `${payload.provider} cannot be called directly from the browser`);
+
+  const thread = payload.thread_id ? await getThread(payload.thread_id) : undefined;
+  const history = thread ? pathTo(await getThreadMessages(thread.id), payload.parent_message_id) : [];
+
+  const messages: ProviderMessage[] = history.map(({ role, content, content_parts }) => ({
+    role,
+    content,
+    parts: content_parts ?? undefined,
+  }));
+  if (!payload.regenerate) {
+    messages.push({ role: 'user', content: payload.message, parts: payload.content_parts });
+  }
+  const systemPrompt = payload.settings?.system_prompt ?? thread?.settings?.system_prompt;
+  if (systemPrompt) {
+    messages.unshift({ role: 'system', content: systemPrompt });
+  }
+
+  const keys = keysToTry(await listApiKeys(), provider.id, payload.api_key_id ?? thread?.api_key_id);
+  if (keys.length === 0) {
+    throw new ApiError(400, `Add an active ${provider.name} API key to chat with ${payload.model_name}`);
+  }
+
+  const persist = payload.persist !== false;
+  const parentId = history[history.length - 1]?.id ?? null;
+  let threadId = thread?.id;
+  let userMessage: ThreadMessage | undefined;
+  if (persist) {
+    threadId ??= (await createThread({
+      title: payload.message.trim().slice(0, TITLE_LENGTH) || 'New chat',
+      provider: provider.id,
+      model_name: payload.model_name,
+      settings: payload.settings,
+      assistant_id: payload.assistant_id,
+      api_key_id: payload.api_key_id ?? null,
+      fallbacks_disabled: payload.fallbacks_disabled,
+    })).id;
+    if (!payload.regenerate) {
+      userMessage = await addThreadMessage(threadId, {
+        role: 'user',
+        content: payload.message,
+        parent_id: parentId,
+        attachments: payload.attachments,
+        content_parts: payload.content_parts,
+      });
+    }
+  }
+
+  let content = '';
+  let usage: TokenUsage | null = null;
+  let servedBy: ApiKey | undefined;
+
+  const storeAnswer = () => addThreadMessage(threadId, {
+    role: 'assistant',
+    content,
+    parent_id: userMessage?.id ?? parentId,
+    provider: provider.id,
+    model_name: payload.model_name,
+    usage,
+    api_key_id: servedBy?.id ?? null,
+    failed_over: !!servedBy && servedBy !== keys[0],
+    fallback_from: payload.fallback_from ?? null,
+  });
+
+  try {
+    for (const [index, key] of keys.entries()) {
+      try {
+        const stream = PROVIDER_ADAPTERS[provider.api].stream({
+          provider,
+          apiKey: await getKeySecret(key.id),
+          model: payload.model_name,
+          messages,
+          settings: payload.settings,
+          signal,
+        });
+        for await (const event of stream) {
+          if (!servedBy) {
+            servedBy = key;
+            yield { type: 'key', apiKeyId: key.id, failedOver: index > 0 };
+          }
+          if (event.type === 'delta') {
+            content += event.content;
+            yield event;
+          } else {
+            usage = event.usage;
+            yield event;
+          }
+        }
+        servedBy ??= key;
+        break;
+      } catch (error) {
+        // Once text has streamed the answer cannot move to another key
+        if (servedBy || !isKeyFailure(error) || index === keys.length - 1 || signal?.aborted) throw error;
+      }
+    }
+  } catch (error) {
+    // Report what was stored so the next message follows it; a failed answer is dropped
+    if (persist) {
+      const stopped = signal?.aborted && content ? await storeAnswer() : undefined;
+      yield { type: 'done', threadId, userMessageId: userMessage?.id, assistantMessageId: stopped?.id };
+    }
+    throw error;
+  }
+
+  if (!persist) {
+    yield { type: 'done' };
+    return;
+  }
+
+  const assistantMessage = await storeAnswer();
+  yield { type: 'done', threadId, userMessageId: userMessage?.id, assistantMessageId: assistantMessage.id };
+}
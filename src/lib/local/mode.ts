@@ -0,0 +1,18 @@
+import type { User } from "@/lib/api/types";
+
+// Local mode keeps threads and encrypted keys in this browser and calls
+// providers directly, so the app works without the backend.
+const LOCAL_MODE_KEY = 'localMode';
+
+export const isLocalMode = () => localStorage.getItem(LOCAL_MODE_KEY) === 'true';
+
+export const setLocalMode = (enabled: boolean) => {
+  if (enabled) {
+    localStorage.setItem(LOCAL_MODE_KEY, 'true');
+  } else {
+    localStorage.removeItem(LOCAL_MODE_KEY);
+  }
+};
+
+/** Who `getCurrentUser` reports in local mode. */
+export const LOCAL_USER: User = { id: 'local', email: 'Local mode (this browser)' };
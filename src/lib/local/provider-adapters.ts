@@ -0,0 +1,244 @@
+import { readServerSentEvents } from "@/lib/sse";
+import { ApiError, formatErrorDetail } from "@/lib/api/client";
+import { ChatStreamError } from "@/lib/api/chat-stream";
+import type { GenerationSettings, MessageContentPart, TokenUsage } from "@/lib/api/types";
+import type { LocalProvider, ProviderApi } from "./catalog";
+
+export interface ProviderMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+  /** Attachments sent after `content`, OpenAI style. */
+  parts?: MessageContentPart[];
+}
+
+export interface ProviderRequest {
+  provider: LocalProvider;
+  apiKey: string;
+  model: string;
+  messages: ProviderMessage[];
+  settings?: GenerationSettings;
+  signal?: AbortSignal;
+}
+
+export type ProviderEvent =
+  | { type: 'delta'; content: string }
+  | { type: 'usage'; usage: TokenUsage };
+
+/**
+ * Talks to one provider API straight from the browser. HTTP failures are
+ * thrown as ApiError with the provider's status, so key failover and the
+ * fallback chain treat them like the server's own errors.
+ */
+export interface ProviderAdapter {
+  stream(request: ProviderRequest): AsyncGenerator<ProviderEvent>;
+}
+
+// Anthropic and Gemini require a token limit; OpenAI-style APIs default to the model's
+const DEFAULT_MAX_TOKENS = 4096;
+
+async function toProviderError(response: Response): Promise<ApiError> {
+  let body: unknown;
+  try {
+    body = await response.json();
+  } catch {
+    body = undefined;
+  }
+  // All three APIs wrap the failure as { error: { message } }
+  const error = (body as { error?: unknown } | undefined)?.error;
+  const message = formatErrorDetail(error) || `${response.status} ${response.statusText || 'Request failed'}`.trim();
+  return new ApiError(response.status, message, body);
+}
+
+async function post(url: string, headers: Record<string, string>, body: unknown, signal?: AbortSignal) {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+    signal,
+  });
+  if (!response.ok) throw await toProviderError(response);
+  if (!response.body) throw new ChatStreamError('Failed to get response reader');
+  return response.body;
+}
+
+function parseData<T>(data: string): T | undefined {
+  try {
+    return JSON.parse(data) as T;
+  } catch {
+    console.warn('Ignoring malformed provider stream data:', data);
+    return undefined;
+  }
+}
+
+function splitDataUrl(url: string) {
+  const match = /^data:([^;,]+);base64,(.*)$/.exec(url);
+  return match ? { mediaType: match[1], data: match[2] } : null;
+}
+
+const systemPrompt = (messages: ProviderMessage[]) =>
+  messages.filter(message => message.role === 'system').map(message => message.content).join('\n\n') || undefined;
+
+const conversation = (messages: ProviderMessage[]) => messages.filter(message => message.role !== 'system');
+
+interface OpenAIChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: TokenUsage | null;
+  error?: { message?: string };
+}
+
+const openAIAdapter: ProviderAdapter = {
+  async *stream({ provider, apiKey, model, messages, settings = {}, signal }) {
+    const body = await post(`${provider.baseUrl}/chat/completions`, { Authorization: `Bearer ${apiKey}` }, {
+      model,
+      stream: true,
+      stream_options: { include_usage: true },
+      messages: messages.map(({ role, content, parts }) => ({
+        role,
+        content: parts?.length ? [{ type: 'text', text: content }, ...parts] : content,
+      })),
+      temperature: settings.temperature,
+      top_p: settings.top_p,
+      max_tokens: settings.max_tokens,
+      stop: settings.stop?.length ? settings.stop : undefined,
+      presence_penalty: settings.presence_penalty,
+      frequency_penalty: settings.frequency_penalty,
+    }, signal);
+
+    for await (const sse of readServerSentEvents(body)) {
+      if (sse.data.trim() === '[DONE]') break;
+      const chunk = parseData<OpenAIChunk>(sse.data);
+      if (!chunk) continue;
+      if (chunk.error) throw new ChatStreamError(chunk.error.message || 'The model returned an error');
+      const content = chunk.choices?.[0]?.delta?.content;
+      if (content) yield { type: 'delta', content };
+      if (chunk.usage) yield { type: 'usage', usage: chunk.usage };
+    }
+  },
+};
+
+function toAnthropicContent({ content, parts }: ProviderMessage) {
+  if (!parts?.length) return content;
+  return [
+    { type: 'text', text: content },
+    ...parts.map(part => {
+      if (part.type === 'text') return { type: 'text', text: part.text };
+      const image = splitDataUrl(part.image_url.url);
+      return image
+        ? { type: 'image', source: { type: 'base64', media_type: image.mediaType, data: image.data } }
+        : { type: 'image', source: { type: 'url', url: part.image_url.url } };
+    }),
+  ];
+}
+
+interface AnthropicEvent {
+  type: string;
+  message?: { usage?: { input_tokens?: number } };
+  delta?: { type?: string; text?: string };
+  usage?: { output_tokens?: number };
+  error?: { message?: string };
+}
+
+const anthropicAdapter: ProviderAdapter = {
+  async *stream({ provider, apiKey, model, messages, settings = {}, signal }) {
+    const body = await post(`${provider.baseUrl}/messages`, {
+      'x-api-key': apiKey,
+      'anthropic-version': '2023-06-01',
+      // Anthropic rejects browser requests unless they acknowledge the key is exposed to the page
+      'anthropic-dangerous-direct-browser-access': 'true',
+    }, {
+      model,
+      stream: true,
+      system: systemPrompt(messages),
+      messages: conversation(messages).map(message => ({ role: message.role, content: toAnthropicContent(message) })),
+      max_tokens: settings.max_tokens ?? DEFAULT_MAX_TOKENS,
+      temperature: settings.temperature,
+      top_p: settings.top_p,
+      stop_sequences: settings.stop?.length ? settings.stop : undefined,
+    }, signal);
+
+    let promptTokens: number | undefined;
+    for await (const sse of readServerSentEvents(body)) {
+      const event = parseData<AnthropicEvent>(sse.data);
+      if (!event) continue;
+      if (event.type === 'error') throw new ChatStreamError(event.error?.message || 'The model returned an error');
+      if (event.type === 'message_start') {
+        promptTokens = event.message?.usage?.input_tokens;
+      } else if (event.type === 'content_block_delta' && event.delta?.type === 'text_delta' && event.delta.text) {
+        yield { type: 'delta', content: event.delta.text };
+      } else if (event.type === 'message_delta' && event.usage) {
+        const completionTokens = event.usage.output_tokens;
+        yield {
+          type: 'usage',
+          usage: {
+            prompt_tokens: promptTokens,
+            completion_tokens: completionTokens,
+            total_tokens: (promptTokens ?? 0) + (completionTokens ?? 0),
+          },
+        };
+      }
+    }
+  },
+};
+
+function toGeminiParts({ content, parts }: ProviderMessage) {
+  return [
+    { text: content },
+    ...(parts ?? []).map(part => {
+      if (part.type === 'text') return { text: part.text };
+      const image = splitDataUrl(part.image_url.url);
+      return image ? { inline_data: { mime_type: image.mediaType, data: image.data } } : { text: part.image_url.url };
+    }),
+  ];
+}
+
+interface GeminiChunk {
+  candidates?: { content?: { parts?: { text?: string }[] } }[];
+  usageMetadata?: { promptTokenCount?: number; candidatesTokenCount?: number; totalTokenCount?: number };
+  error?: { message?: string };
+}
+
+const geminiAdapter: ProviderAdapter = {
+  async *stream({ provider, apiKey, model, messages, settings = {}, signal }) {
+    const system = systemPrompt(messages);
+    const url = `${provider.baseUrl}/models/${encodeURIComponent(model)}:streamGenerateContent?alt=sse`;
+    const body = await post(url, { 'x-goog-api-key': apiKey }, {
+      system_instruction: system ? { parts: [{ text: system }] } : undefined,
+      contents: conversation(messages).map(message => ({
+        role: message.role === 'assistant' ? 'model' : 'user',
+        parts: toGeminiParts(message),
+      })),
+      generationConfig: {
+        temperature: settings.temperature,
+        topP: settings.top_p,
+        maxOutputTokens: settings.max_tokens ?? DEFAULT_MAX_TOKENS,
+        stopSequences: settings.stop?.length ? settings.stop : undefined,
+        presencePenalty: settings.presence_penalty,
+        frequencyPenalty: settings.frequency_penalty,
+      },
+    }, signal);
+
+    // Every chunk repeats the running token counts, so only the last one is reported
+    let usage: TokenUsage | undefined;
+    for await (const sse of readServerSentEvents(body)) {
+      const chunk = parseData<GeminiChunk>(sse.data);
+      if (!chunk) continue;
+      if (chunk.error) throw new ChatStreamError(chunk.error.message || 'The model returned an error');
+      const content = (chunk.candidates?.[0]?.content?.parts ?? []).map(part => part.text ?? '').join('');
+      if (content) yield { type: 'delta', content };
+      if (chunk.usageMetadata) {
+        usage = {
+          prompt_tokens: chunk.usageMetadata.promptTokenCount,
+          completion_tokens: chunk.usageMetadata.candidatesTokenCount,
+          total_tokens: chunk.usageMetadata.totalTokenCount,
+        };
+      }
+    }
+    if (usage) yield { type: 'usage', usage };
+  },
+};
+
+export const PROVIDER_ADAPTERS: Record<ProviderApi, ProviderAdapter> = {
+  openai: openAIAdapter,
+  anthropic: anthropicAdapter,
+  gemini: geminiAdapter,
+};
@@ -0,0 +1,186 @@
+import { ApiError } from "@/lib/api/client";
+import type {
+  Assistant,
+  AssistantCreate,
+  AssistantUpdate,
+  PromptTemplate,
+  PromptTemplateCreate,
+  PromptTemplateUpdate,
+  SearchResult,
+  Thread,
+  ThreadCreate,
+  ThreadMessage,
+  ThreadMessageCreate,
+  ThreadUpdate,
+  UsageRecord,
+} from "@/lib/api/types";
+import { toDateKey } from "@/lib/usage-stats";
+import { deleteRecord, deleteThreadRecords, getAll, getAllByThread, getRecord, putRecord, type StoreName } from "./db";
+
+// The local counterparts of the thread, library and usage endpoints. Records
+// have the same shapes the server returns, so the UI cannot tell them apart.
+
+const now = () => new Date().toISOString();
+
+async function getOrThrow<T>(store: StoreName, id: string, what: string): Promise<T> {
+  const record = await getRecord<T>(store, id);
+  if (!record) throw new ApiError(404, `${what} not found`);
+  return record;
+}
+
+// Threads
+
+export const listThreads = () => getAll<Thread>('threads');
+
+export const getThread = (threadId: string) => getOrThrow<Thread>('threads', threadId, 'Thread');
+
+export async function createThread({ created_at, ...payload }: ThreadCreate & Partial<Thread>): Promise<Thread> {
+  const thread: Thread = {
+    ...payload,
+    id: crypto.randomUUID(),
+    created_at: created_at ?? now(),
+    updated_at: created_at ?? now(),
+  };
+  await putRecord('threads', thread);
+  return thread;
+}
+
+export async function updateThread(threadId: string, payload: ThreadUpdate): Promise<Thread> {
+  const thread = { ...await getThread(threadId), ...payload, updated_at: now() };
+  await putRecord('threads', thread);
+  return thread;
+}
+
+export const deleteThread = (threadId: string) => deleteThreadRecords(threadId);
+
+export async function getThreadMessages(threadId: string): Promise<ThreadMessage[]> {
+  await getThread(threadId);
+  const messages = await getAllByThread<ThreadMessage>(threadId);
+  return messages.sort((a, b) => a.created_at.localeCompare(b.created_at));
+}
+
+/** Stores a message under the thread and marks the thread as updated. */
+export async function addThreadMessage(
+  threadId: string,
+  message: Omit<ThreadMessage, 'id' | 'thread_id' | 'created_at'> & { created_at?: string }
+): Promise<ThreadMessage> {
+  const thread = await getThread(threadId);
+  const stored: ThreadMessage = { ...message, id: crypto.randomUUID(), thread_id: threadId, created_at: message.created_at ?? now() };
+  await putRecord('messages', stored);
+  await putRecord('threads', { ...thread, updated_at: stored.created_at });
+  return stored;
+}
+
+export async function appendThreadMessages(
+  threadId: string,
+  messages: ThreadMessageCreate[],
+  parentId: string | null = null
+): Promise<ThreadMessage[]> {
+  const stored: ThreadMessage[] = [];
+  for (const message of messages) {
+    stored.push(await addThreadMessage(threadId, { ...message, parent_id: stored[stored.length - 1]?.id ?? parentId }));
+  }
+  return stored;
+}
+
+const SNIPPET_RADIUS = 60;
+
+function snippetAround(text: string, index: number, length: number) {
+  const start = Math.max(0, index - SNIPPET_RADIUS);
+  const end = Math.min(text.length, index + length + SNIPPET_RADIUS);
+  return `${start > 0 ? '…' : ''}${text.slice(start, end).replace(/\s+/g, ' ')}${end < text.length ? '…' : ''}`;
+}
+
+/** A plain substring search; the server's full-text ranking is not available offline. */
+export async function searchConversations(query: string): Promise<SearchResult[]> {
+  const needle = query.toLowerCase();
+  const [threads, messages] = await Promise.all([getAll<Thread>('threads'), getAll<ThreadMessage>('messages')]);
+  const titles = new Map(threads.map(thread => [thread.id, thread.title]));
+
+  const titleHits: SearchResult[] = threads
+    .filter(thread => thread.title.toLowerCase().includes(needle))
+    .map(thread => ({ thread_id: thread.id, thread_title: thread.title, snippet: thread.title, created_at: thread.updated_at }));
+
+  const messageHits: SearchResult[] = [];
+  for (const message of messages) {
+    const index = message.content.toLowerCase().indexOf(needle);
+    if (index === -1 || !message.thread_id || !titles.has(message.thread_id)) continue;
+    messageHits.push({
+      thread_id: message.thread_id,
+      thread_title: titles.get(message.thread_id) ?? '',
+      message_id: message.id,
+      role: message.role,
+      snippet: snippetAround(message.content, index, needle.length),
+      created_at: message.created_at,
+    });
+  }
+
+  return [...titleHits, ...messageHits].sort((a, b) => b.created_at.localeCompare(a.created_at));
+}
+
+// Assistants and prompt library
+
+export const listAssistants = () => getAll<Assistant>('assistants');
+
+export const getAssistant = (assistantId: string) => getOrThrow<Assistant>('assistants', assistantId, 'Assistant');
+
+export async function createAssistant(payload: AssistantCreate): Promise<Assistant> {
+  const assistant: Assistant = { ...payload, id: crypto.randomUUID(), created_at: now(), updated_at: now() };
+  await putRecord('assistants', assistant);
+  return assistant;
+}
+
+export async function updateAssistant(assistantId: string, payload: AssistantUpdate): Promise<Assistant> {
+  const assistant = { ...await getAssistant(assistantId), ...payload, updated_at: now() };
+  await putRecord('assistants', assistant);
+  return assistant;
+}
+
+export const deleteAssistant = (assistantId: string) => deleteRecord('assistants', assistantId);
+
+export const listPromptTemplates = () => getAll<PromptTemplate>('prompts');
+
+export async function createPromptTemplate(payload: PromptTemplateCreate): Promise<PromptTemplate> {
+  const prompt: PromptTemplate = { ...payload, id: crypto.randomUUID(), created_at: now(), updated_at: now() };
+  await putRecord('prompts', prompt);
+  return prompt;
+}
+
+export async function updatePromptTemplate(promptId: string, payload: PromptTemplateUpdate): Promise<PromptTemplate> {
+  const prompt = { ...await getOrThrow<PromptTemplate>('prompts', promptId, 'Prompt'), ...payload, updated_at: now() };
+  await putRecord('prompts', prompt);
+  return prompt;
+}
+
+export const deletePromptTemplate = (promptId: string) => deleteRecord('prompts', promptId);
+
+// Usage
+
+/**
+ * Usage rebuilt from the stored answers' token counts. Exchanges that were not
+ * stored, such as comparison runs, are not counted.
+ */
+export async function getUsage(start: string, end: string): Promise<UsageRecord[]> {
+  const records = new Map<string, UsageRecord>();
+  for (const message of await getAll<ThreadMessage>('messages')) {
+    if (message.role !== 'assistant' || !message.provider || !message.model_name) continue;
+    const date = toDateKey(new Date(message.created_at));
+    if (date < start || date > end) continue;
+
+    const id = [date, message.provider, message.model_name, message.api_key_id ?? ''].join('|');
+    const record = records.get(id) ?? {
+      date,
+      provider: message.provider,
+      model_name: message.model_name,
+      api_key_id: message.api_key_id ?? null,
+      requests: 0,
+      prompt_tokens: 0,
+      completion_tokens: 0,
+    };
+    record.requests += 1;
+    record.prompt_tokens += message.usage?.prompt_tokens ?? 0;
+    record.completion_tokens += message.usage?.completion_tokens ?? 0;
+    records.set(id, record);
+  }
+  return [...records.values()];
+}
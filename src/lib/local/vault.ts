@@ -0,0 +1,96 @@
+import { clearAll, getRecord, putRecord } from "./db";
+
+// Key secrets are encrypted with AES-GCM under a key derived from the user's
+// passphrase. The derived key lives only in memory, so a reload locks the vault.
+const PBKDF2_ITERATIONS = 600_000;
+const VAULT_RECORD = 'vault';
+const VERIFIER_TEXT = 'byok-chat-vault';
+
+export interface EncryptedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+interface VaultRecord {
+  salt: Uint8Array;
+  /** A known text encrypted with the vault key, to tell a wrong passphrase apart. */
+  verifier: EncryptedValue;
+}
+
+export class VaultLockedError extends Error {
+  constructor(message = 'Unlock local mode with your passphrase first') {
+    super(message);
+    this.name = 'VaultLockedError';
+  }
+}
+
+let vaultKey: CryptoKey | null = null;
+
+async function deriveKey(passphrase: string, salt: Uint8Array): Promise<CryptoKey> {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+}
+
+async function encryptWith(key: CryptoKey, text: string): Promise<EncryptedValue> {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv, data };
+}
+
+async function decryptWith(key: CryptoKey, value: EncryptedValue): Promise<string> {
+  const data = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: value.iv }, key, value.data);
+  return new TextDecoder().decode(data);
+}
+
+export const hasVault = async () => !!(await getRecord<VaultRecord>('meta', VAULT_RECORD));
+
+export const isVaultUnlocked = () => vaultKey !== null;
+
+export async function createVault(passphrase: string): Promise<void> {
+  const salt = crypto.getRandomValues(new Uint8Array(16));
+  const key = await deriveKey(passphrase, salt);
+  await putRecord<VaultRecord>('meta', { salt, verifier: await encryptWith(key, VERIFIER_TEXT) }, VAULT_RECORD);
+  vaultKey = key;
+}
+
+/** Resolves to false when the passphrase is wrong. */
+export async function unlockVault(passphrase: string): Promise<boolean> {
+  const record = await getRecord<VaultRecord>('meta', VAULT_RECORD);
+  if (!record) return false;
+
+  const key = await deriveKey(passphrase, record.salt);
+  try {
+    // AES-GCM authenticates the data, so a wrong key fails here instead of decoding garbage
+    if (await decryptWith(key, record.verifier) !== VERIFIER_TEXT) return false;
+  } catch {
+    return false;
+  }
+  vaultKey = key;
+  return true;
+}
+
+export const lockVault = () => {
+  vaultKey = null;
+};
+
+/** Erases the vault along with every key, thread and message stored in this browser. */
+export async function resetVault(): Promise<void> {
+  lockVault();
+  await clearAll();
+}
+
+export async function encryptSecret(secret: string): Promise<EncryptedValue> {
+  if (!vaultKey) throw new VaultLockedError();
+  return encryptWith(vaultKey, secret);
+}
+
+export async function decryptSecret(value: EncryptedValue): Promise<string> {
+  if (!vaultKey) throw new VaultLockedError();
+  return decryptWith(vaultKey, value);
+}
@@ -0,0 +1,73 @@
+const FENCE_PATTERN = /^ {0,3}(`{3,}|~{3,})/;
+const MATH_FENCE_PATTERN = /^ {0,3}\$\$\s*$/;
+
+/**
+ * Splits markdown into top-level blocks at blank lines that are not inside a
+ * fenced code or `$$` math block. Used while a message is streaming so that
+ * finished blocks can be memoized and only the trailing block is re-parsed as
+ * tokens arrive.
+ */
+export function splitMarkdownBlocks(markdown: string): string[] {
+  const blocks: string[] = [];
+  let current: string[] = [];
+  let openFence: string | null = null;
+  let inMath = false;
+
+  for (const line of markdown.split('\n')) {
+    if (openFence) {
+      current.push(line);
+      const closing = line.trim();
+      if (closing.startsWith(openFence) && /^[`~]+$/.test(closing)) {
+        openFence = null;
+      }
+      continue;
+    }
+
+    if (inMath) {
+      current.push(line);
+      if (MATH_FENCE_PATTERN.test(line)) inMath = false;
+      continue;
+    }
+
+    const fence = FENCE_PATTERN.exec(line);
+    if (fence) {
+      openFence = fence[1];
+    } else if (MATH_FENCE_PATTERN.test(line)) {
+      inMath = true;
+    } else if (line.trim() === '' && current.length > 0) {
+      blocks.push(current.join('\n'));
+      current = [];
+      continue;
+    }
+
+    if (line.trim() !== '' || current.length > 0) {
+      current.push(line);
+    }
+  }
+
+  if (current.length > 0) {
+    blocks.push(current.join('\n'));
+  }
+  return blocks;
+}
+
+// Matches fenced code, inline code, or LaTeX-style \[...\] / \(...\) math.
+const MATH_DELIMITER_PATTERN = /(^ {0,3}(`{3,}|~{3,})[\s\S]*?(?:^ {0,3}\2[`~]*\s*$|(?![\s\S])))|(`+)[\s\S]*?\3|\\\[([\s\S]+?)\\\]|\\\(([\s\S]+?)\\\)/gm;
+
+/**
+ * Models frequently emit `\[ ... \]` and `\( ... \)` math, which remark-math
+ * does not recognise. Rewrite them to `$$` / `$` delimiters, leaving code
+ * untouched.
+ */
+export function normalizeMathDelimiters(markdown: string): string {
+  if (!markdown.includes('\\[') && !markdown.includes('\\(')) return markdown;
+
+  return markdown.replace(
+    MATH_DELIMITER_PATTERN,
+    (match, fenced, _fence, inlineCode, block, inline) => {
+      if (fenced || inlineCode) return match;
+      if (block !== undefined) return `\n$$\n${block.trim()}\n$$\n`;
+      return `$${inline.trim()}$`;
+    }
+  );
+}
@@ -0,0 +1,30 @@
+// pdf.js is large, so it is only loaded the first time a PDF is attached
+const loadPdfJs = async () => {
+  const [pdfjs, worker] = await Promise.all([
+    import("pdfjs-dist"),
+    import("pdfjs-dist/build/pdf.worker.min.mjs?url"),
+  ]);
+  pdfjs.GlobalWorkerOptions.workerSrc = worker.default;
+  return pdfjs;
+};
+
+/** Extracts the text layer of a PDF, one block per page. Scanned PDFs come back empty. */
+export async function extractPdfText(data: ArrayBuffer): Promise<string> {
+  const pdfjs = await loadPdfJs();
+  const document = await pdfjs.getDocument({ data }).promise;
+
+  try {
+    const pages: string[] = [];
+    for (let pageNumber = 1; pageNumber <= document.numPages; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const content = await page.getTextContent();
+      const text = content.items
+        .map(item => ('str' in item ? item.str + (item.hasEOL ? '\n' : '') : ''))
+        .join('');
+      pages.push(text.trim());
+    }
+    return pages.filter(Boolean).join('\n\n');
+  } finally {
+    await document.destroy();
+  }
+}
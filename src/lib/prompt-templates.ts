@@ -0,0 +1,51 @@
+import type { PromptTemplate } from "@/lib/api";
+
+const VARIABLE_PATTERN = /\{\{\s*([^{}]+?)\s*\}\}/g;
+
+export interface PromptFolder {
+  /** Empty for prompts that are not in a folder. */
+  folder: string;
+  prompts: PromptTemplate[];
+}
+
+/** Variable names in order of first appearance, e.g. `{{ language }}` yields `language`. */
+export const extractVariables = (content: string): string[] => {
+  const names: string[] = [];
+  for (const match of content.matchAll(VARIABLE_PATTERN)) {
+    if (!names.includes(match[1])) names.push(match[1]);
+  }
+  return names;
+};
+
+/** Replaces each placeholder with its value; placeholders without a value are left as typed. */
+export const fillTemplate = (content: string, values: Record<string, string>) =>
+  content.replace(VARIABLE_PATTERN, (placeholder, name: string) => values[name] ?? placeholder);
+
+/** Folders sorted by name with unfiled prompts last; prompts sorted by name within each. */
+export const groupByFolder = (prompts: PromptTemplate[]): PromptFolder[] => {
+  const groups = new Map<string, PromptTemplate[]>();
+  for (const prompt of prompts) {
+    const folder = prompt.folder?.trim() || '';
+    groups.set(folder, [...(groups.get(folder) || []), prompt]);
+  }
+  return Array.from(groups, ([folder, items]) => ({
+    folder,
+    prompts: items.sort((a, b) => a.name.localeCompare(b.name)),
+  })).sort((a, b) => {
+    if (!a.folder || !b.folder) return a.folder ? -1 : b.folder ? 1 : 0;
+    return a.folder.localeCompare(b.folder);
+  });
+};
+
+/** Prompts whose name or folder contains the query, names starting with it first. */
+export const filterTemplates = (prompts: PromptTemplate[], query: string) => {
+  const needle = query.trim().toLowerCase();
+  if (!needle) return prompts;
+  return prompts
+    .filter(prompt =>
+      prompt.name.toLowerCase().includes(needle) || prompt.folder?.toLowerCase().includes(needle)
+    )
+    .sort((a, b) =>
+      Number(b.name.toLowerCase().startsWith(needle)) - Number(a.name.toLowerCase().startsWith(needle))
+    );
+};
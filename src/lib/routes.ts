@@ -0,0 +1,11 @@
+export const NEW_CHAT_PATH = '/chat/new';
+export const API_KEYS_PATH = '/settings/api-keys';
+export const PROMPTS_PATH = '/prompts';
+export const USAGE_PATH = '/usage';
+
+export type AppView = 'chat' | 'prompts' | 'usage' | 'api-keys';
+
+export const newChatPath = (assistantId?: string) =>
+  assistantId ? `${NEW_CHAT_PATH}?assistant=${encodeURIComponent(assistantId)}` : NEW_CHAT_PATH;
+
+export const threadPath = (threadId: string) => `/chat/${encodeURIComponent(threadId)}`;
@@ -0,0 +1,125 @@
+export interface ServerSentEvent {
+  /** Event type from the `event:` field, "message" when none was sent. */
+  event: string;
+  data: string;
+  id?: string;
+  retry?: number;
+}
+
+/**
+ * Incremental parser for the `text/event-stream` format. Feed it decoded text
+ * in whatever pieces the network delivers; complete events are returned as soon
+ * as their terminating blank line arrives and partial lines are kept for the
+ * next call.
+ */
+export class SSEParser {
+  private buffer = '';
+  private eventType = '';
+  private dataLines: string[] = [];
+  private lastEventId: string | undefined;
+  private retry: number | undefined;
+
+  feed(text: string): ServerSentEvent[] {
+    this.buffer += text;
+    const events: ServerSentEvent[] = [];
+
+    let lineEnd: RegExpExecArray | null;
+    const lineBreak = /\r\n|\r|\n/g;
+    let consumed = 0;
+
+    while ((lineEnd = lineBreak.exec(this.buffer)) !== null) {
+      // A trailing \r may be the first half of \r\n split across chunks.
+      if (lineEnd[0] === '\r' && lineEnd.index === this.buffer.length - 1) break;
+
+      const line = this.buffer.slice(consumed, lineEnd.index);
+      consumed = lineEnd.index + lineEnd[0].length;
+
+      const event = this.processLine(line);
+      if (event) events.push(event);
+    }
+
+    this.buffer = this.buffer.slice(consumed);
+    return events;
+  }
+
+  /**
+   * Called at end of stream. Servers do not always terminate the final event
+   * with a blank line, so any buffered data is dispatched rather than dropped.
+   */
+  flush(): ServerSentEvent[] {
+    const events: ServerSentEvent[] = [];
+    if (this.buffer) {
+      const event = this.processLine(this.buffer);
+      if (event) events.push(event);
+      this.buffer = '';
+    }
+    const pending = this.dispatch();
+    if (pending) events.push(pending);
+    return events;
+  }
+
+  private processLine(line: string): ServerSentEvent | undefined {
+    if (line === '') return this.dispatch();
+    if (line.startsWith(':')) return undefined;
+
+    const colon = line.indexOf(':');
+    const field = colon === -1 ? line : line.slice(0, colon);
+    let value = colon === -1 ? '' : line.slice(colon + 1);
+    if (value.startsWith(' ')) value = value.slice(1);
+
+    switch (field) {
+      case 'event':
+        this.eventType = value;
+        break;
+      case 'data':
+        this.dataLines.push(value);
+        break;
+      case 'id':
+        if (!value.includes('\0')) this.lastEventId = value;
+        break;
+      case 'retry':
+        if (/^\d+$/.test(value)) this.retry = Number(value);
+        break;
+    }
+    return undefined;
+  }
+
+  private dispatch(): ServerSentEvent | undefined {
+    if (this.dataLines.length === 0) {
+      this.eventType = '';
+      return undefined;
+    }
+
+    const event: ServerSentEvent = {
+      event: this.eventType || 'message',
+      data: this.dataLines.join('\n'),
+      id: this.lastEventId,
+      retry: this.retry,
+    };
+    this.eventType = '';
+    this.dataLines = [];
+    return event;
+  }
+}
+
+/** Reads a response body as a stream of server-sent events. */
+export async function* readServerSentEvents(
+  body: ReadableStream<Uint8Array>
+): AsyncGenerator<ServerSentEvent> {
+  const reader = body.getReader();
+  const decoder = new TextDecoder();
+  const parser = new SSEParser();
+
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      // stream: true keeps multi-byte characters split across chunks intact
+      yield* parser.feed(decoder.decode(value, { stream: true }));
+    }
+    yield* parser.feed(decoder.decode());
+    yield* parser.flush();
+  } finally {
+    reader.releaseLock();
+  }
+}
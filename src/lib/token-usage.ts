@@ -0,0 +1,167 @@
+import type { TokenUsage } from "@/lib/api";
+
+/** Prices are in US dollars per million tokens. */
+export interface ModelPricing {
+  input: number;
+  output: number;
+  contextWindow: number;
+}
+
+// List prices at the time of writing. Keys are matched as prefixes of the
+// model name, longest first, so dated releases (gpt-4o-2024-08-06) and
+// gateway prefixes (anthropic/claude-...) resolve to their family.
+const MODEL_PRICING: Record<string, ModelPricing> = {
+  'gpt-4o': { input: 2.5, output: 10, contextWindow: 128_000 },
+  'gpt-4o-mini': { input: 0.15, output: 0.6, contextWindow: 128_000 },
+  'gpt-4.1': { input: 2, output: 8, contextWindow: 1_047_576 },
+  'gpt-4.1-mini': { input: 0.4, output: 1.6, contextWindow: 1_047_576 },
+  'gpt-4.1-nano': { input: 0.1, output: 0.4, contextWindow: 1_047_576 },
+  'gpt-4-turbo': { input: 10, output: 30, contextWindow: 128_000 },
+  'gpt-4': { input: 30, output: 60, contextWindow: 8_192 },
+  'gpt-3.5-turbo': { input: 0.5, output: 1.5, contextWindow: 16_385 },
+  'o1': { input: 15, output: 60, contextWindow: 200_000 },
+  'o1-mini': { input: 1.1, output: 4.4, contextWindow: 128_000 },
+  'o3': { input: 2, output: 8, contextWindow: 200_000 },
+  'o3-mini': { input: 1.1, output: 4.4, contextWindow: 200_000 },
+  'o4-mini': { input: 1.1, output: 4.4, contextWindow: 200_000 },
+  'claude-opus-4': { input: 15, output: 75, contextWindow: 200_000 },
+  'claude-sonnet-4': { input: 3, output: 15, contextWindow: 200_000 },
+  'claude-3-7-sonnet': { input: 3, output: 15, contextWindow: 200_000 },
+  'claude-3-5-sonnet': { input: 3, output: 15, contextWindow: 200_000 },
+  'claude-3-5-haiku': { input: 0.8, output: 4, contextWindow: 200_000 },
+  'claude-3-opus': { input: 15, output: 75, contextWindow: 200_000 },
+  'claude-3-haiku': { input: 0.25, output: 1.25, contextWindow: 200_000 },
+  'gemini-2.5-pro': { input: 1.25, output: 10, contextWindow: 1_048_576 },
+  'gemini-2.5-flash': { input: 0.3, output: 2.5, contextWindow: 1_048_576 },
+  'gemini-2.0-flash': { input: 0.1, output: 0.4, contextWindow: 1_048_576 },
+  'gemini-1.5-pro': { input: 1.25, output: 5, contextWindow: 2_097_152 },
+  'gemini-1.5-flash': { input: 0.075, output: 0.3, contextWindow: 1_048_576 },
+  'mistral-large': { input: 2, output: 6, contextWindow: 128_000 },
+  'mistral-small': { input: 0.2, output: 0.6, contextWindow: 32_000 },
+  'command-r-plus': { input: 2.5, output: 10, contextWindow: 128_000 },
+  'command-r': { input: 0.15, output: 0.6, contextWindow: 128_000 },
+};
+
+const PRICING_KEYS = Object.keys(MODEL_PRICING).sort((a, b) => b.length - a.length);
+
+/** Share of the context window past which the composer warns before sending. */
+export const CONTEXT_WARNING_RATIO = 0.8;
+
+// Tokens a chat API adds around each message for the role and separators
+const MESSAGE_OVERHEAD_TOKENS = 4;
+
+/** Undefined for models missing from the price table; their cost is not shown. */
+export const getModelPricing = (model?: string): ModelPricing | undefined => {
+  if (!model) return undefined;
+  const name = model.toLowerCase().split('/').pop()!;
+  const key = PRICING_KEYS.find(prefix => name === prefix || name.startsWith(`${prefix}-`));
+  return key ? MODEL_PRICING[key] : undefined;
+};
+
+// Usage is recomputed on every streamed chunk, so earlier messages hit this cache
+const estimateCache = new Map<string, number>();
+const ESTIMATE_CACHE_SIZE = 500;
+
+/**
+ * Rough token count for when the provider does not report usage. BPE
+ * tokenizers average about four characters per token of English text, while
+ * punctuation and CJK characters tend to be a token each; this lands within
+ * ~10-15% of the real count for typical chat text.
+ */
+export const estimateTokens = (text: string): number => {
+  if (!text) return 0;
+  const cached = estimateCache.get(text);
+  if (cached !== undefined) return cached;
+
+  let tokens = 0;
+  for (const piece of text.match(/[\p{L}\p{N}]+|[^\s\p{L}\p{N}]/gu) ?? []) {
+    if (/[぀-ヿ㐀-鿿가-힯]/.test(piece)) {
+      tokens += piece.length;
+    } else {
+      tokens += Math.ceil(piece.length / 4);
+    }
+  }
+  if (estimateCache.size >= ESTIMATE_CACHE_SIZE) estimateCache.clear();
+  estimateCache.set(text, tokens);
+  return tokens;
+};
+
+export interface UsageSummary {
+  inputTokens: number;
+  outputTokens: number;
+  /** Undefined when the model has no known price. */
+  cost?: number;
+  /** True when any count comes from estimateTokens rather than the provider. */
+  estimated: boolean;
+}
+
+interface UsageMessage {
+  role: 'user' | 'assistant';
+  content: string;
+  model?: string;
+  usage?: TokenUsage;
+  isStreaming?: boolean;
+}
+
+export const estimateCost = (inputTokens: number, outputTokens: number, model?: string) => {
+  const pricing = getModelPricing(model);
+  if (!pricing) return undefined;
+  return (inputTokens * pricing.input + outputTokens * pricing.output) / 1_000_000;
+};
+
+/** Approximate prompt size of a conversation, counting the per-message overhead. */
+export const estimateConversationTokens = (messages: Pick<UsageMessage, 'content'>[], systemPrompt?: string) =>
+  messages.reduce(
+    (total, message) => total + estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS,
+    systemPrompt ? estimateTokens(systemPrompt) + MESSAGE_OVERHEAD_TOKENS : 0
+  );
+
+/**
+ * Usage of each assistant turn on a conversation path, undefined for user
+ * turns and answers still streaming. Reported counts are used where present;
+ * otherwise the prompt is estimated from the messages before the turn and the
+ * output from its own text.
+ */
+export function getPathUsage(path: UsageMessage[], systemPrompt?: string): (UsageSummary | undefined)[] {
+  let promptEstimate = estimateConversationTokens([], systemPrompt);
+  return path.map(message => {
+    const promptSoFar = promptEstimate;
+    promptEstimate += estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+    if (message.role !== 'assistant' || message.isStreaming) return undefined;
+
+    const { prompt_tokens, completion_tokens } = message.usage ?? {};
+    const inputTokens = prompt_tokens ?? promptSoFar;
+    const outputTokens = completion_tokens ?? estimateTokens(message.content);
+    return {
+      inputTokens,
+      outputTokens,
+      cost: estimateCost(inputTokens, outputTokens, message.model),
+      estimated: prompt_tokens === undefined || completion_tokens === undefined,
+    };
+  });
+}
+
+/** Adds up per-turn usage. Cost covers only the models with a known price. */
+export function sumUsage(usages: (UsageSummary | undefined)[]): UsageSummary {
+  const total: UsageSummary = { inputTokens: 0, outputTokens: 0, estimated: false };
+  for (const usage of usages) {
+    if (!usage) continue;
+    total.inputTokens += usage.inputTokens;
+    total.outputTokens += usage.outputTokens;
+    total.estimated ||= usage.estimated;
+    if (usage.cost !== undefined) total.cost = (total.cost ?? 0) + usage.cost;
+  }
+  return total;
+}
+
+export const formatTokenCount = (tokens: number) => {
+  if (tokens < 1000) return tokens.toString();
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(tokens < 10_000 ? 1 : 0)}k`;
+  return `${(tokens / 1_000_000).toFixed(1)}M`;
+};
+
+export const formatCost = (cost: number) => {
+  if (cost === 0) return '$0';
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+};
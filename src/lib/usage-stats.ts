@@ -0,0 +1,152 @@
+import { eachDayOfInterval, format } from "date-fns";
+import type { UsageRecord } from "@/lib/api";
+import { estimateCost } from "@/lib/token-usage";
+
+export type UsageMetric = 'tokens' | 'requests' | 'cost';
+export type UsageDimension = 'provider' | 'model' | 'key';
+
+export interface UsageTotals {
+  requests: number;
+  inputTokens: number;
+  outputTokens: number;
+  /** Spend on models with a known price; see `unpricedRequests` for the rest. */
+  cost: number;
+  unpricedRequests: number;
+}
+
+export interface UsageBreakdownRow extends UsageTotals {
+  key: string;
+  label: string;
+}
+
+/** Series beyond this many are folded into "Other" so the chart stays readable. */
+const MAX_SERIES = 6;
+export const OTHER_SERIES = '__other__';
+const DELETED_KEY = '__deleted__';
+
+export const toDateKey = (date: Date) => format(date, 'yyyy-MM-dd');
+
+const emptyTotals = (): UsageTotals => ({ requests: 0, inputTokens: 0, outputTokens: 0, cost: 0, unpricedRequests: 0 });
+
+const addRecord = (totals: UsageTotals, record: UsageRecord) => {
+  const cost = estimateCost(record.prompt_tokens, record.completion_tokens, record.model_name);
+  totals.requests += record.requests;
+  totals.inputTokens += record.prompt_tokens;
+  totals.outputTokens += record.completion_tokens;
+  if (cost === undefined) {
+    totals.unpricedRequests += record.requests;
+  } else {
+    totals.cost += cost;
+  }
+};
+
+const metricOf = (totals: UsageTotals, metric: UsageMetric) =>
+  metric === 'tokens' ? totals.inputTokens + totals.outputTokens
+    : metric === 'requests' ? totals.requests
+      : totals.cost;
+
+const dimensionKey = (record: UsageRecord, dimension: UsageDimension) =>
+  dimension === 'provider' ? record.provider
+    : dimension === 'model' ? record.model_name
+      : record.api_key_id ?? DELETED_KEY;
+
+export const dimensionLabel = (key: string, dimension: UsageDimension, keyNames: Record<string, string>) => {
+  if (key === OTHER_SERIES) return 'Other';
+  if (dimension !== 'key') return key;
+  if (key === DELETED_KEY) return 'Deleted key';
+  return keyNames[key] ?? 'Deleted key';
+};
+
+export function summarizeUsage(records: UsageRecord[]): UsageTotals {
+  const totals = emptyTotals();
+  records.forEach(record => addRecord(totals, record));
+  return totals;
+}
+
+/** One row per provider, model or key, highest spend first. */
+export function getUsageBreakdown(
+  records: UsageRecord[],
+  dimension: UsageDimension,
+  keyNames: Record<string, string>
+): UsageBreakdownRow[] {
+  const groups = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = dimensionKey(record, dimension);
+    if (!groups.has(key)) groups.set(key, emptyTotals());
+    addRecord(groups.get(key)!, record);
+  }
+  return [...groups.entries()]
+    .map(([key, totals]) => ({ key, label: dimensionLabel(key, dimension, keyNames), ...totals }))
+    .sort((a, b) => b.cost - a.cost || b.inputTokens + b.outputTokens - (a.inputTokens + a.outputTokens));
+}
+
+/**
+ * Chart rows with one entry per day in the range (days without usage are
+ * zero) and one numeric field per series. Returns the series keys, largest
+ * first, alongside the rows.
+ */
+export function getDailySeries(
+  records: UsageRecord[],
+  range: { from: Date; to: Date },
+  metric: UsageMetric,
+  dimension: UsageDimension
+): { series: string[]; rows: Record<string, string | number>[] } {
+  const totalsByKey = new Map<string, UsageTotals>();
+  for (const record of records) {
+    const key = dimensionKey(record, dimension);
+    if (!totalsByKey.has(key)) totalsByKey.set(key, emptyTotals());
+    addRecord(totalsByKey.get(key)!, record);
+  }
+  const ranked = [...totalsByKey.entries()]
+    .sort(([, a], [, b]) => metricOf(b, metric) - metricOf(a, metric))
+    .map(([key]) => key);
+  const shown = ranked.length > MAX_SERIES ? ranked.slice(0, MAX_SERIES - 1) : ranked;
+  const series = ranked.length > shown.length ? [...shown, OTHER_SERIES] : shown;
+
+  const byDay = new Map<string, Map<string, UsageTotals>>();
+  for (const record of records) {
+    const key = dimensionKey(record, dimension);
+    const seriesKey = shown.includes(key) ? key : OTHER_SERIES;
+    if (!byDay.has(record.date)) byDay.set(record.date, new Map());
+    const day = byDay.get(record.date)!;
+    if (!day.has(seriesKey)) day.set(seriesKey, emptyTotals());
+    addRecord(day.get(seriesKey)!, record);
+  }
+
+  const rows = eachDayOfInterval({ start: range.from, end: range.to }).map(date => {
+    const dateKey = toDateKey(date);
+    const row: Record<string, string | number> = { date: dateKey };
+    for (const key of series) {
+      const totals = byDay.get(dateKey)?.get(key);
+      row[key] = totals ? metricOf(totals, metric) : 0;
+    }
+    return row;
+  });
+  return { series, rows };
+}
+
+const csvField = (value: string | number) => {
+  const text = String(value);
+  return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/** One line per record; cost is left empty for models without a known price. */
+export function usageToCsv(records: UsageRecord[], keyNames: Record<string, string>): string {
+  const header = ['date', 'provider', 'model', 'api_key', 'requests', 'input_tokens', 'output_tokens', 'estimated_cost_usd'];
+  const lines = [...records]
+    .sort((a, b) => a.date.localeCompare(b.date))
+    .map(record => {
+      const cost = estimateCost(record.prompt_tokens, record.completion_tokens, record.model_name);
+      return [
+        record.date,
+        record.provider,
+        record.model_name,
+        dimensionLabel(record.api_key_id ?? DELETED_KEY, 'key', keyNames),
+        record.requests,
+        record.prompt_tokens,
+        record.completion_tokens,
+        cost === undefined ? '' : cost.toFixed(6),
+      ].map(csvField).join(',');
+    });
+  return [header.join(','), ...lines].join('\n');
+}
@@ -1,22 +1,51 @@
 
-import { useState, useEffect } from "react";
+import { useState, useEffect, useRef, useCallback } from "react";
+import { useMatch, useNavigate, useParams, useSearchParams } from "react-router-dom";
 import { ChatInterface } from "@/components/chat/ChatInterface";
 import { Sidebar } from "@/components/layout/Sidebar";
 import { ApiKeyManager } from "@/components/api-keys/ApiKeyManager";
+import { PromptLibrary } from "@/components/prompts/PromptLibrary";
+import { UsageDashboard } from "@/components/usage/UsageDashboard";
 import { AuthModal } from "@/components/auth/AuthModal";
+import { LocalVaultScreen } from "@/components/auth/LocalVaultScreen";
+import { SearchPalette } from "@/components/search/SearchPalette";
 import { SidebarProvider } from "@/components/ui/sidebar";
+import { clearAuthToken, getAuthToken, getCurrentUser, onUnauthorized, type User } from "@/lib/api";
+import { isLocalMode, LOCAL_USER, setLocalMode } from "@/lib/local/mode";
+import { lockVault } from "@/lib/local/vault";
+import { API_KEYS_PATH, NEW_CHAT_PATH, PROMPTS_PATH, USAGE_PATH, newChatPath, threadPath, type AppView } from "@/lib/routes";
+import NotFound from "./NotFound";
 
 const Index = () => {
   const [isAuthenticated, setIsAuthenticated] = useState(false);
-  const [currentUser, setCurrentUser] = useState(null);
-  const [activeView, setActiveView] = useState<'chat' | 'api-keys'>('chat');
+  const [localMode, setLocalModeState] = useState(isLocalMode);
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [selectedModel, setSelectedModel] = useState('gpt-4');
   const [selectedProvider, setSelectedProvider] = useState('openai');
-  const [currentThreadId, setCurrentThreadId] = useState<string | undefined>();
   const [loading, setLoading] = useState(true);
   const [sidebarCollapsed, setSidebarCollapsed] = useState(false);
+  const [searchOpen, setSearchOpen] = useState(false);
+  const [focusMessageId, setFocusMessageId] = useState<string | undefined>();
+  const [missingThreadId, setMissingThreadId] = useState<string | null>(null);
+
+  // The URL is the source of truth for the open view and thread, so refreshes,
+  // bookmarks and back/forward all land in the same place
+  const navigate = useNavigate();
+  const { threadId: currentThreadId } = useParams<{ threadId: string }>();
+  const [searchParams] = useSearchParams();
+  // Only a new chat can be started from an assistant
+  const assistantId = currentThreadId ? undefined : searchParams.get('assistant') ?? undefined;
+  const isApiKeysView = useMatch(API_KEYS_PATH) !== null;
+  const isPromptsView = useMatch(PROMPTS_PATH) !== null;
+  const isUsageView = useMatch(USAGE_PATH) !== null;
+  const activeView: AppView = isApiKeysView ? 'api-keys' : isPromptsView ? 'prompts' : isUsageView ? 'usage' : 'chat';
+  const lastThreadIdRef = useRef<string | undefined>();
 
-  const API_BASE_URL = "http://localhost:8000";
+  useEffect(() => {
+    if (activeView === 'chat') {
+      lastThreadIdRef.current = currentThreadId;
+    }
+  }, [activeView, currentThreadId]);
 
   // Check if user is already authenticated on mount
   useEffect(() => {
@@ -24,59 +53,81 @@ const Index = () => {
   }, []);
 
   const checkAuthStatus = async () => {
-    const token = localStorage.getItem('authToken');
-    if (!token) {
+    if (!getAuthToken()) {
       setLoading(false);
       return;
     }
 
     try {
-      const response = await fetch(`${API_BASE_URL}/auth/me`, {
-        headers: {
-          'Authorization': `Bearer ${token}`,
-        },
-      });
-
-      if (response.ok) {
-        const user = await response.json();
-        setCurrentUser(user);
-        setIsAuthenticated(true);
-      } else {
-        // Token is invalid, remove it
-        localStorage.removeItem('authToken');
-      }
+      const user = await getCurrentUser();
+      setCurrentUser(user);
+      setIsAuthenticated(true);
     } catch (error) {
       console.error('Auth check failed:', error);
-      localStorage.removeItem('authToken');
+      clearAuthToken();
     } finally {
       setLoading(false);
     }
   };
 
-  const handleAuthSuccess = (token: string, user: any) => {
+  const handleAuthSuccess = (token: string, user: User) => {
     setCurrentUser(user);
     setIsAuthenticated(true);
   };
 
-  const handleLogout = () => {
-    localStorage.removeItem('authToken');
+  const handleLogout = useCallback(() => {
+    if (localMode) {
+      lockVault();
+    } else {
+      clearAuthToken();
+    }
     setIsAuthenticated(false);
     setCurrentUser(null);
-    setCurrentThreadId(undefined);
+    navigate(NEW_CHAT_PATH, { replace: true });
+  }, [localMode, navigate]);
+
+  // Any authenticated request that comes back 401 ends the session
+  useEffect(() => onUnauthorized(handleLogout), [handleLogout]);
+
+  const handleLocalModeChange = (enabled: boolean) => {
+    setLocalMode(enabled);
+    setLocalModeState(enabled);
+  };
+
+  const handleVaultUnlocked = () => {
+    setCurrentUser(LOCAL_USER);
+    setIsAuthenticated(true);
   };
 
-  const handleNewChat = () => {
-    setCurrentThreadId(undefined);
-    setActiveView('chat');
+  const handleViewChange = (view: AppView) => {
+    if (view === 'api-keys') {
+      navigate(API_KEYS_PATH);
+    } else if (view === 'prompts') {
+      navigate(PROMPTS_PATH);
+    } else if (view === 'usage') {
+      navigate(USAGE_PATH);
+    } else if (activeView !== 'chat') {
+      const lastThreadId = lastThreadIdRef.current;
+      navigate(lastThreadId ? threadPath(lastThreadId) : NEW_CHAT_PATH);
+    }
+  };
+
+  const handleNewChat = (fromAssistantId?: string) => {
+    navigate(newChatPath(fromAssistantId));
   };
 
   const handleThreadSelect = (threadId: string) => {
-    setCurrentThreadId(threadId);
-    setActiveView('chat');
+    navigate(threadPath(threadId));
+  };
+
+  const handleSearchResultSelect = (threadId: string, messageId?: string) => {
+    setFocusMessageId(messageId);
+    navigate(threadPath(threadId));
   };
 
+  // A new conversation takes over the /chat/new entry rather than stacking on top of it
   const handleThreadCreated = (threadId: string) => {
-    setCurrentThreadId(threadId);
+    navigate(threadPath(threadId), { replace: true });
   };
 
   if (loading) {
@@ -88,7 +139,11 @@ const Index = () => {
   }
 
   if (!isAuthenticated) {
-    return <AuthModal onAuthSuccess={handleAuthSuccess} />;
+    return localMode ? (
+      <LocalVaultScreen onUnlocked={handleVaultUnlocked} onUseAccount={() => handleLocalModeChange(false)} />
+    ) : (
+      <AuthModal onAuthSuccess={handleAuthSuccess} onUseLocalMode={() => handleLocalModeChange(true)} />
+    );
   }
 
   return (
@@ -96,33 +151,51 @@ const Index = () => {
       <div className="h-screen flex w-full bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900 overflow-hidden">
         <Sidebar 
           activeView={activeView}
-          onViewChange={setActiveView}
+          onViewChange={handleViewChange}
           selectedModel={selectedModel}
           selectedProvider={selectedProvider}
           onModelChange={setSelectedModel}
           onProviderChange={setSelectedProvider}
           onThreadSelect={handleThreadSelect}
+          currentThreadId={currentThreadId}
           onNewChat={handleNewChat}
           onLogout={handleLogout}
           currentUser={currentUser}
           collapsed={sidebarCollapsed}
           onToggleCollapse={() => setSidebarCollapsed(!sidebarCollapsed)}
+          onOpenSearch={() => setSearchOpen(true)}
         />
         
         <main className="flex-1 flex flex-col overflow-hidden">
-          {activeView === 'chat' ? (
+          {activeView === 'chat' && currentThreadId && currentThreadId === missingThreadId ? (
+            <NotFound threadId={currentThreadId} />
+          ) : activeView === 'chat' ? (
             <ChatInterface 
               selectedModel={selectedModel}
               selectedProvider={selectedProvider}
               currentThreadId={currentThreadId}
+              assistantId={assistantId}
               onThreadCreated={handleThreadCreated}
+              onThreadNotFound={setMissingThreadId}
               onModelChange={setSelectedModel}
               onProviderChange={setSelectedProvider}
+              focusMessageId={focusMessageId}
+              onFocusHandled={() => setFocusMessageId(undefined)}
             />
+          ) : activeView === 'prompts' ? (
+            <PromptLibrary />
+          ) : activeView === 'usage' ? (
+            <UsageDashboard />
           ) : (
             <ApiKeyManager />
           )}
         </main>
+
+        <SearchPalette
+          open={searchOpen}
+          onOpenChange={setSearchOpen}
+          onSelectResult={handleSearchResultSelect}
+        />
       </div>
     </SidebarProvider>
   );
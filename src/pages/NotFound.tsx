@@ -1,24 +1,47 @@
-import { useLocation } from "react-router-dom";
+import { Link, useLocation } from "react-router-dom";
 import { useEffect } from "react";
+import { cn } from "@/lib/utils";
+import { NEW_CHAT_PATH } from "@/lib/routes";
 
-const NotFound = () => {
+interface NotFoundProps {
+  /** Set when rendered inside the app for a thread that could not be loaded. */
+  threadId?: string;
+}
+
+const NotFound = ({ threadId }: NotFoundProps) => {
   const location = useLocation();
 
   useEffect(() => {
+    if (threadId) {
+      console.error("404 Error: User attempted to open non-existent thread:", threadId);
+      return;
+    }
     console.error(
       "404 Error: User attempted to access non-existent route:",
       location.pathname
     );
-  }, [location.pathname]);
+  }, [location.pathname, threadId]);
 
   return (
-    <div className="min-h-screen flex items-center justify-center bg-gray-100">
-      <div className="text-center">
-        <h1 className="text-4xl font-bold mb-4">404</h1>
-        <p className="text-xl text-gray-600 mb-4">Oops! Page not found</p>
-        <a href="/" className="text-blue-500 hover:text-blue-700 underline">
-          Return to Home
-        </a>
+    <div
+      className={cn(
+        "flex items-center justify-center",
+        threadId ? "h-full" : "min-h-screen bg-gradient-to-br from-slate-900 via-slate-800 to-slate-900"
+      )}
+    >
+      <div className="text-center px-6">
+        <h1 className="text-4xl font-bold mb-4 text-white">404</h1>
+        <p className={cn("text-xl text-slate-300", threadId ? "mb-2" : "mb-4")}>
+          {threadId ? "Conversation not found" : "Oops! Page not found"}
+        </p>
+        {threadId && (
+          <p className="text-sm text-slate-400 mb-4">
+            It may have been deleted, or the link belongs to another account.
+          </p>
+        )}
+        <Link to={NEW_CHAT_PATH} className="text-blue-400 hover:text-blue-300 underline">
+          {threadId ? "Start a new chat" : "Return to Home"}
+        </Link>
       </div>
     </div>
   );